@@ -1,9 +1,45 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { Upload, Play, Download, Image as ImageIcon, Wand2, Loader2, AlertCircle, Settings, Key, CheckCircle2, XCircle, RotateCcw, Layers, Maximize, FileArchive, FileImage, Square, Ban } from 'lucide-react';
-import { checkApiKey, promptApiKeySelection, generateAnimationFrames } from './services/gemini';
-import { processGeneratedFrames, createApng, createGif, createZip } from './services/videoProcessor';
-import { GenerationState, UserConfig, GeneratedFrame } from './types';
+import { Upload, Play, Download, Image as ImageIcon, Wand2, Loader2, AlertCircle, Settings, Key, CheckCircle2, XCircle, RotateCcw, Layers, Maximize, FileArchive, FileImage, Square, Ban, Grid3x3, Film, Link2, RefreshCw, Eraser, Crosshair, LayoutGrid, FileVideo, Sticker, Timer, History, FolderOpen, FolderDown, Palette, ShieldCheck } from 'lucide-react';
+import { generateAnimationFrames, generateFrameWithRetry, blobToInlineImage } from './services/frameGenerator';
+import { FRAME_PROVIDERS, getFrameProvider } from './services/providers';
+import { processGeneratedFrames, createGif, createZip, sliceSpriteSheet, extractFramesFromVideo, readVideoDuration, DEFAULT_BACKGROUND_REMOVAL, DEFAULT_NORMALIZATION, DEFAULT_APNG_OPTIMIZATION, stabilizeFrameColors, loadReferencePixels } from './services/videoProcessor';
+import { DEFAULT_COLOR_STABILIZATION } from './services/colorStabilizer';
+import { colorHistogram, DEFAULT_QUALITY_CHECK, withQualityIssues } from './services/qualityCheck';
+import { GenerationState, UserConfig, GeneratedFrame, SpriteSheetOptions, VideoImportOptions, FrameProviderId, BackgroundRemovalMode, NormalizationOptions, SequenceMetrics, SpriteSheetExportOptions, TimingOptions, ApngOptimizationOptions, StickerPlatformId, ProjectData, BatchJob, MotionPreset, InterpolationOptions, ColorStabilizationOptions, GifOptions } from './types';
+import FrameTimeline from './components/FrameTimeline';
+import StickerReportPanel from './components/StickerReportPanel';
+import HistoryGallery from './components/HistoryGallery';
+import BatchQueuePanel from './components/BatchQueuePanel';
+import MotionPresetPanel from './components/MotionPresetPanel';
+import FrameScriptEditor from './components/FrameScriptEditor';
+import PreviewPlayer from './components/PreviewPlayer';
+import InterpolationPanel from './components/InterpolationPanel';
+import LoopAnalysisPanel from './components/LoopAnalysisPanel';
+import { createSpriteSheetZip, DEFAULT_SPRITE_SHEET_EXPORT } from './services/atlasExporter';
+import { createWebp } from './services/webpEncoder';
+import { DEFAULT_GIF_OPTIONS } from './services/gifEncoder';
+import { createWebm } from './services/webmEncoder';
+import { DEFAULT_TIMING } from './services/timing';
+import { optimizeApng } from './services/apngOptimizer';
+import { applyStickerPreset, exportSticker, STICKER_PLATFORMS } from './services/stickerPresets';
+import { blobToDataUrl, createSessionId, framesFromHistory, framesToHistory, loadSession, saveSession } from './services/historyStore';
+import { exportProjectFile, importProjectFile, PROJECT_EXTENSION } from './services/projectFile';
+import { applyMotionPreset, poseForFrame } from './services/motionPresets';
+import { framePoses, parseFrameScript } from './services/frameScript';
+import { interpolateFrames } from './services/interpolation';
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(2)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+// Slot of every frame in the generated sequence, skipping the failed slots in between
+const frameSlots = (frameCount: number, failed: number[] = []) => {
+  const slots: number[] = [];
+  for (let slot = 0; slots.length < frameCount; slot++) {
+    if (!failed.includes(slot)) slots.push(slot);
+  }
+  return slots;
+};
 
 function App() {
   const [apiKeyReady, setApiKeyReady] = useState(false);
@@ -20,7 +56,23 @@ function App() {
     resolution: '720p',
     frameCount: 6,
     zoom: 1.0, // Default to 100% scale
+    generationMode: 'parallel',
+    chainFirstFrame: true,
+    providerId: 'gemini',
+    background: DEFAULT_BACKGROUND_REMOVAL,
+    normalization: DEFAULT_NORMALIZATION,
+    spriteSheet: DEFAULT_SPRITE_SHEET_EXPORT,
+    timing: DEFAULT_TIMING,
+    apng: DEFAULT_APNG_OPTIMIZATION,
+    gif: DEFAULT_GIF_OPTIONS,
+    platform: 'none',
+    poses: [],
+    scriptEnabled: false,
+    script: '',
+    color: DEFAULT_COLOR_STABILIZATION,
+    quality: DEFAULT_QUALITY_CHECK,
   });
+  const provider = getFrameProvider(config.providerId);
   
   const [generation, setGeneration] = useState<GenerationState>({
     isGenerating: false,
@@ -30,36 +82,60 @@ function App() {
 
   const [apngUrl, setApngUrl] = useState<string | null>(null);
   const [previewIndex, setPreviewIndex] = useState(0);
-  const previewIntervalRef = useRef<number | null>(null);
+  const [regeneratingIndex, setRegeneratingIndex] = useState<number | null>(null);
+  // Guards against an older export rebuild finishing after a newer edit
+  const exportVersionRef = useRef(0);
+  // Pending rebuild after a timing or platform change
+  const rebuildTimerRef = useRef<number | undefined>(undefined);
+  const spriteSheetVersionRef = useRef(0);
+  const apngVersionRef = useRef(0);
+  const gifVersionRef = useRef(0);
+  // History session the current frames are saved under, and the raw model outputs that produced them
+  const sessionIdRef = useRef<string | null>(null);
+  const rawOutputsRef = useRef<(Blob | null)[]>([]);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+  const [historyError, setHistoryError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Existing asset import (sprite sheet or video clip)
+  const [importMode, setImportMode] = useState<'spritesheet' | 'video'>('spritesheet');
+  const [sheetUrl, setSheetUrl] = useState<string | null>(null);
+  const [sheetOptions, setSheetOptions] = useState<SpriteSheetOptions>({
+    mode: 'grid',
+    rows: 1,
+    columns: 4,
+    cellWidth: 256,
+    cellHeight: 256,
+    margin: 0,
+    spacing: 0,
+  });
+  const sheetInputRef = useRef<HTMLInputElement>(null);
+  const [clipUrl, setClipUrl] = useState<string | null>(null);
+  const [clipDuration, setClipDuration] = useState(0);
+  const [videoOptions, setVideoOptions] = useState<VideoImportOptions>({
+    startTime: 0,
+    sampling: 'frameCount',
+    frameCount: 8,
+    sampleFps: 8,
+  });
+  const clipInputRef = useRef<HTMLInputElement>(null);
   
   // Controller to abort generation
   const abortControllerRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
-    checkApiKey().then((ready) => {
+    provider.checkApiKey().then((ready) => {
        setApiKeyReady(ready);
     });
-  }, []);
-
-  useEffect(() => {
-    if (generation.frames && generation.frames.length > 0) {
-      previewIntervalRef.current = window.setInterval(() => {
-        setPreviewIndex(prev => (prev + 1) % (generation.frames?.length || 1));
-      }, 1000 / config.fps);
-    }
-
-    return () => {
-      if (previewIntervalRef.current) clearInterval(previewIntervalRef.current);
-    };
-  }, [generation.frames, config.fps]);
+  }, [provider]);
 
   const handleApiKeySelect = async () => {
     setAuthError(null);
     try {
-      await promptApiKeySelection();
+      await provider.selectApiKey();
       await new Promise(r => setTimeout(r, 500));
-      const isReady = await checkApiKey();
+      const isReady = await provider.checkApiKey();
       setApiKeyReady(isReady);
       return isReady;
     } catch (e) {
@@ -107,10 +183,831 @@ function App() {
     });
     setApngUrl(null);
     setAuthError(null);
+    setSheetUrl(null);
+    sessionIdRef.current = null;
+    rawOutputsRef.current = [];
+    setClipUrl(null);
+    setClipDuration(0);
     
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
+    if (sheetInputRef.current) {
+      sheetInputRef.current.value = '';
+    }
+    if (clipInputRef.current) {
+      clipInputRef.current.value = '';
+    }
+  };
+
+  const handleSheetUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files[0]) {
+      if (sheetUrl) URL.revokeObjectURL(sheetUrl);
+      setSheetUrl(URL.createObjectURL(e.target.files[0]));
+    }
+  };
+
+  const handleClipUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files[0]) {
+      if (clipUrl) URL.revokeObjectURL(clipUrl);
+      const url = URL.createObjectURL(e.target.files[0]);
+      setClipUrl(url);
+      setClipDuration(0);
+
+      // Read the duration so the time range defaults to the whole clip
+      readVideoDuration(url)
+          .catch(() => 0)
+          .then(duration => {
+              setClipDuration(duration);
+              setVideoOptions(prev => ({ ...prev, startTime: 0, endTime: duration || undefined }));
+          });
+    }
+  };
+
+  const buildSpriteSheet = async (frames: GeneratedFrame[], options: SpriteSheetExportOptions, exportConfig: UserConfig = config) => {
+    try {
+        const sheetBlob = await createSpriteSheetZip(frames, exportConfig.fps, options, exportConfig.timing);
+        return URL.createObjectURL(sheetBlob);
+    } catch (e) {
+        console.warn("Sprite sheet creation failed", e);
+        return undefined;
+    }
+  };
+
+  // Encodes every download format from the final frame sequence
+  // Pass `exportConfig` when the settings were just replaced and the state has not caught up yet
+  const buildExports = async (frames: GeneratedFrame[], exportConfig: UserConfig = config) => {
+    // 1. Create APNG
+    const apng = await optimizeApng(frames, exportConfig.fps, exportConfig.timing, exportConfig.apng);
+    const finalUrl = URL.createObjectURL(apng.blob);
+    setApngUrl(finalUrl);
+
+    // 2. Create GIF
+    let gifUrl = undefined;
+    try {
+        const gifBlob = await createGif(frames, exportConfig.fps, exportConfig.timing, exportConfig.gif);
+        gifUrl = URL.createObjectURL(gifBlob);
+    } catch (e) {
+        console.warn("GIF creation failed", e);
+    }
+
+    // 3. Create ZIP
+    let zipUrl = undefined;
+    try {
+        const zipBlob = await createZip(frames);
+        zipUrl = URL.createObjectURL(zipBlob);
+    } catch (e) {
+         console.warn("ZIP creation failed", e);
+    }
+
+    // 4. Create Sprite Sheet + Atlas
+    const spriteSheetUrl = await buildSpriteSheet(frames, exportConfig.spriteSheet, exportConfig);
+
+    // 5. Create Animated WebP
+    let webpUrl = undefined;
+    try {
+        const webpBlob = await createWebp(frames, exportConfig.fps, exportConfig.timing);
+        webpUrl = URL.createObjectURL(webpBlob);
+    } catch (e) {
+        console.warn("WebP creation failed", e);
+    }
+
+    // 6. Create WebM (VP9 + alpha)
+    let webmUrl = undefined;
+    try {
+        const webmBlob = await createWebm(frames, exportConfig.fps, exportConfig.timing);
+        webmUrl = URL.createObjectURL(webmBlob);
+    } catch (e) {
+        console.warn("WebM creation failed", e);
+    }
+
+    // 7. Fit and validate the sticker for the selected platform
+    let stickerUrl = undefined;
+    let stickerReport = undefined;
+    if (exportConfig.platform !== 'none') {
+        try {
+            const sticker = await exportSticker(frames, exportConfig);
+            stickerUrl = URL.createObjectURL(sticker.blob);
+            stickerReport = sticker.report;
+        } catch (e) {
+            console.warn("Sticker export failed", e);
+        }
+    }
+
+    return { videoUrl: finalUrl, apngInfo: apng.info, gifUrl, zipUrl, spriteSheetUrl, webpUrl, webmUrl, stickerUrl, stickerReport };
+  };
+
+  // Only the sprite sheet depends on these options, so the other exports are kept
+  const handleSpriteSheetOptionsChange = async (options: SpriteSheetExportOptions) => {
+    setConfig(prev => ({ ...prev, spriteSheet: options }));
+    if (!generation.frames || generation.frames.length === 0) return;
+
+    const version = ++spriteSheetVersionRef.current;
+    const spriteSheetUrl = await buildSpriteSheet(generation.frames, options);
+    if (version !== spriteSheetVersionRef.current) return;
+    setGeneration(prev => ({ ...prev, spriteSheetUrl }));
+  };
+
+  // Re-encodes only the APNG so the size of each setting shows up before download
+  const handleApngOptionsChange = async (options: ApngOptimizationOptions) => {
+    setConfig(prev => ({ ...prev, apng: options }));
+    if (!generation.frames || generation.frames.length === 0) return;
+
+    const version = ++apngVersionRef.current;
+    setGeneration(prev => ({ ...prev, apngInfo: undefined }));
+    try {
+        const apng = await optimizeApng(generation.frames, config.fps, config.timing, options);
+        if (version !== apngVersionRef.current) return;
+        const url = URL.createObjectURL(apng.blob);
+        setApngUrl(url);
+        setGeneration(prev => ({ ...prev, videoUrl: url, apngInfo: apng.info }));
+    } catch (e: any) {
+        if (version !== apngVersionRef.current) return;
+        console.error("APNG optimization error:", e);
+        setGeneration(prev => ({ ...prev, error: e.message || "APNG 压缩失败" }));
+    }
+  };
+
+  const handleGifOptionsChange = async (options: GifOptions) => {
+    setConfig(prev => ({ ...prev, gif: options }));
+    if (!generation.frames || generation.frames.length === 0) return;
+
+    const version = ++gifVersionRef.current;
+    try {
+        const blob = await createGif(generation.frames, config.fps, config.timing, options);
+        if (version !== gifVersionRef.current) return;
+        setGeneration(prev => ({ ...prev, gifUrl: URL.createObjectURL(blob) }));
+    } catch (e: any) {
+        if (version !== gifVersionRef.current) return;
+        console.error("GIF encoding error:", e);
+        setGeneration(prev => ({ ...prev, error: e.message || "GIF 编码失败" }));
+    }
+  };
+
+  // Snapshot of the editor state for the history and project files
+  const currentProject = (frames: GeneratedFrame[], projectConfig: UserConfig = config): ProjectData => ({
+    name: projectConfig.prompt.trim() || '导入的动画',
+    config: projectConfig,
+    source: imageFile && originalDimensions
+        ? { blob: imageFile, name: imageFile.name, ...originalDimensions }
+        : undefined,
+    rawOutputs: rawOutputsRef.current,
+    frames: framesToHistory(frames),
+  });
+
+  // Saves the current frames to the history; failures are reported but never block the result
+  // `project` overrides the snapshot when the state has not caught up yet
+  const persistSession = async (frames: GeneratedFrame[], sessionConfig: UserConfig = config, project?: ProjectData) => {
+    if (!sessionIdRef.current) sessionIdRef.current = createSessionId();
+    try {
+        await saveSession({
+            id: sessionIdRef.current,
+            ...(project || currentProject(frames, sessionConfig)),
+        });
+        setHistoryError(null);
+    } catch (e: any) {
+        console.warn("History save failed", e);
+        setHistoryError(e.message || "历史记录保存失败");
+    }
+  };
+
+  // Restores a saved project and re-encodes its exports with the settings it was saved with
+  const restoreProject = async (project: ProjectData, sessionId: string, sessionConfig: UserConfig) => {
+    // Enter the generating state together with the config change and invalidate pending rebuilds,
+    // so the previous frames are never re-exported and saved under the restored session
+    window.clearTimeout(rebuildTimerRef.current);
+    exportVersionRef.current++;
+    setGeneration({
+        isGenerating: true,
+        progress: 30,
+        statusMessage: '正在恢复工程...'
+    });
+    setConfig(sessionConfig);
+    sessionIdRef.current = sessionId;
+    rawOutputsRef.current = project.rawOutputs;
+
+    if (project.source) {
+        setImageFile(new File([project.source.blob], project.source.name, { type: project.source.blob.type }));
+        setImagePreview(await blobToDataUrl(project.source.blob));
+        setOriginalDimensions({ width: project.source.width, height: project.source.height });
+    } else {
+        setImageFile(null);
+        setImagePreview(null);
+        setOriginalDimensions(null);
+    }
+
+    setApngUrl(null);
+    setPreviewIndex(0);
+    setGeneration(prev => ({ ...prev, progress: 50 }));
+
+    const frames = await framesFromHistory(project.frames);
+    setGeneration(prev => ({ ...prev, progress: 70, statusMessage: '正在重新导出...', frames }));
+    const exports = await buildExports(frames, sessionConfig);
+    setGeneration(prev => ({ ...prev, isGenerating: false, progress: 100, statusMessage: '完成!', ...exports }));
+    return frames;
+  };
+
+  const handleOpenSession = async (id: string) => {
+    setHistoryOpen(false);
+    try {
+        const session = await loadSession(id);
+        if (!session) return;
+        await restoreProject(session, session.id, { ...config, ...session.config });
+    } catch (e: any) {
+        console.error("History restore error:", e);
+        setGeneration(prev => ({ ...prev, isGenerating: false, error: e.message || "恢复历史记录失败" }));
+    }
+  };
+
+  // Opens a .toonmotion file as a new history session
+  const handleImportProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+        const project = await importProjectFile(file, config);
+        const frames = await restoreProject(project, createSessionId(), project.config);
+        await persistSession(frames, project.config, project);
+    } catch (e: any) {
+        console.error("Project import error:", e);
+        setGeneration(prev => ({ ...prev, isGenerating: false, error: e.message || "工程文件导入失败" }));
+    }
+  };
+
+  // Loads a finished batch job into the editor as a new history session
+  const handleOpenBatchJob = async (job: BatchJob) => {
+    if (!job.frames) return;
+    try {
+        const project: ProjectData = {
+            name: job.name,
+            config: job.config,
+            source: {
+                blob: await fetch(job.reference.dataUrl).then(r => r.blob()),
+                name: job.reference.name,
+                width: job.reference.width,
+                height: job.reference.height,
+            },
+            rawOutputs: job.rawOutputs || [],
+            frames: framesToHistory(job.frames),
+        };
+        const frames = await restoreProject(project, createSessionId(), job.config);
+        await persistSession(frames, job.config, project);
+    } catch (e: any) {
+        console.error("Batch job open error:", e);
+        setGeneration(prev => ({ ...prev, isGenerating: false, error: e.message || "无法打开批量任务" }));
+    }
+  };
+
+  const handleExportProject = async () => {
+    if (!generation.frames || generation.frames.length === 0) return;
+    try {
+        const blob = await exportProjectFile(currentProject(generation.frames));
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `toonmotion-${Date.now()}${PROJECT_EXTENSION}`;
+        link.click();
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (e: any) {
+        console.error("Project export error:", e);
+        setGeneration(prev => ({ ...prev, error: e.message || "工程文件导出失败" }));
+    }
+  };
+
+  // Re-encodes the exports after the frame sequence was edited in the timeline
+  const applyFrameEdit = async (edited: GeneratedFrame[]) => {
+    const frames = edited.map((frame, i) => ({ ...frame, index: i }));
+    const version = ++exportVersionRef.current;
+
+    setPreviewIndex(prev => Math.min(prev, Math.max(0, frames.length - 1)));
+    setGeneration(prev => ({ ...prev, frames, error: undefined, statusMessage: '正在重新打包...' }));
+
+    try {
+        const exports = await buildExports(frames);
+        if (version !== exportVersionRef.current) return;
+        setGeneration(prev => ({ ...prev, statusMessage: '完成!', ...exports }));
+        persistSession(frames);
+    } catch (e: any) {
+        if (version !== exportVersionRef.current) return;
+        console.error("Export rebuild error:", e);
+        setGeneration(prev => ({ ...prev, error: e.message || "重新打包失败" }));
+    }
+  };
+
+  // Timing and platform changes affect every animated export, so they are re-encoded once the controls settle
+  useEffect(() => {
+    const frames = generation.frames;
+    if (!frames || frames.length === 0 || generation.isGenerating || regeneratingIndex !== null) return;
+    rebuildTimerRef.current = window.setTimeout(() => applyFrameEdit(frames), 400);
+    return () => window.clearTimeout(rebuildTimerRef.current);
+  }, [config.fps, config.timing, config.platform]);
+
+  const handlePlatformChange = (platform: StickerPlatformId) => {
+    setConfig(prev => applyStickerPreset(prev, platform));
+  };
+
+  const handleApplyMotionPreset = (preset: MotionPreset) => {
+    setConfig(prev => applyMotionPreset(prev, preset));
+  };
+
+  const handleTimingChange = (patch: Partial<TimingOptions>) => {
+    setConfig(prev => ({ ...prev, timing: { ...prev.timing, ...patch } }));
+  };
+
+  const handleHoldChange = (index: number, hold: number) => {
+    const frames = generation.frames;
+    if (!frames) return;
+    applyFrameEdit(frames.map((f, i) => (i === index ? { ...f, hold: Math.max(1, hold) } : f)));
+  };
+
+  // Applies a timeline edit and carries the failed slots and raw model outputs along with the frames:
+  // each frame takes the failed slots that follow it, so a later retry still fills the same gap
+  const editTimeline = (edit: <T>(items: T[]) => T[]) => {
+    const frames = generation.frames;
+    if (!frames) return;
+    const failed = generation.failedIndices || [];
+    const blocked = generation.blockedIndices || [];
+    const raw = rawOutputsRef.current;
+
+    const lead: number[] = [];
+    const groups = frameSlots(frames.length, failed).map((slot, i) => ({ frame: frames[i], slot, failed: [] as number[] }));
+    failed.forEach(slot => {
+        const owner = [...groups].reverse().find(group => group.slot < slot);
+        (owner ? owner.failed : lead).push(slot);
+    });
+
+    const edited = edit(groups);
+    // Failures next to a removed frame move to the nearest earlier frame that is still there
+    groups.forEach((group, i) => {
+        if (edited.includes(group) || group.failed.length === 0) return;
+        const owner = groups.slice(0, i).reverse().find(g => edited.includes(g));
+        (owner ? owner.failed : lead).push(...group.failed);
+    });
+
+    const slotMap = new Map<number, number>();
+    const nextRaw: (Blob | null)[] = [];
+    const place = (slot: number) => {
+        slotMap.set(slot, nextRaw.length);
+        nextRaw.push(raw[slot] ?? null);
+    };
+    lead.sort((a, b) => a - b).forEach(place);
+    const placed = new Set<object>();
+    edited.forEach(group => {
+        nextRaw.push(raw[group.slot] ?? null);
+        // A duplicated frame does not duplicate the failures after it
+        if (placed.has(group)) return;
+        placed.add(group);
+        group.failed.sort((a, b) => a - b).forEach(place);
+    });
+
+    const remap = (slots: number[]) => {
+        const mapped = slots.map(slot => slotMap.get(slot)!).sort((a, b) => a - b);
+        return mapped.length > 0 ? mapped : undefined;
+    };
+    if (raw.length > 0) rawOutputsRef.current = nextRaw;
+    setGeneration(prev => ({ ...prev, failedIndices: remap(failed), blockedIndices: remap(blocked) }));
+    applyFrameEdit(edited.map(group => group.frame));
+  };
+
+  const handleDeleteFrame = (index: number) => {
+    const frames = generation.frames;
+    if (!frames || frames.length <= 1) return;
+    editTimeline(items => items.filter((_, i) => i !== index));
+  };
+
+  // Replaces the frames with an in-betweened sequence at a higher frame rate
+  const handleInterpolate = async (options: InterpolationOptions) => {
+    const frames = generation.frames;
+    if (!frames || frames.length < 2) return;
+
+    // Kept in the generating state until the new exports exist, so the fps change does not trigger a second rebuild
+    setGeneration(prev => ({ ...prev, isGenerating: true, progress: 0, statusMessage: '正在生成补间帧...', error: undefined }));
+    try {
+        const result = await interpolateFrames(frames, config.fps, config.timing, options, (done, total) =>
+            setGeneration(prev => ({ ...prev, progress: Math.round((done / total) * 80), statusMessage: `正在生成补间帧 (${done}/${total})...` }))
+        );
+        const nextConfig = { ...config, fps: result.fps };
+        setConfig(nextConfig);
+        setPreviewIndex(0);
+        // In-betweens replace the generated slots, so earlier failures can no longer be retried in place
+        setGeneration(prev => ({ ...prev, frames: result.frames, failedIndices: undefined, blockedIndices: undefined, progress: 85, statusMessage: '正在重新打包...' }));
+
+        const exports = await buildExports(result.frames, nextConfig);
+        setGeneration(prev => ({ ...prev, isGenerating: false, progress: 100, statusMessage: '完成!', ...exports }));
+        persistSession(result.frames, nextConfig);
+    } catch (e: any) {
+        console.error("Interpolation error:", e);
+        setGeneration(prev => ({ ...prev, isGenerating: false, error: e.message || "补间生成失败" }));
+    }
+  };
+
+  // Re-applies colour stabilization to the current frames with the current settings
+  const handleStabilizeColors = async () => {
+    const frames = generation.frames;
+    if (!frames || frames.length === 0 || !imagePreview) return;
+
+    setGeneration(prev => ({ ...prev, isGenerating: true, progress: 0, statusMessage: '正在校正颜色...', error: undefined }));
+    try {
+        const stabilized = await stabilizeFrameColors(frames, imagePreview, config.background, config.color);
+        setGeneration(prev => ({ ...prev, isGenerating: false }));
+        await applyFrameEdit(stabilized);
+    } catch (e: any) {
+        console.error("Color stabilization error:", e);
+        setGeneration(prev => ({ ...prev, isGenerating: false, error: e.message || "颜色校正失败" }));
+    }
+  };
+
+  const handleDuplicateFrame = (index: number) => {
+    editTimeline(items => [...items.slice(0, index + 1), items[index], ...items.slice(index + 1)]);
+  };
+
+  const handleReorderFrame = (from: number, to: number) => {
+    setPreviewIndex(to);
+    editTimeline(items => {
+        const reordered = [...items];
+        const [moved] = reordered.splice(from, 1);
+        reordered.splice(to, 0, moved);
+        return reordered;
+    });
+  };
+
+  // Processes the successful slots of a generation result and reports which slots are still missing
+  // Pass `sequence` to register the frames against an already processed sequence
+  const processFrameSlots = async (urls: (string | null)[], targetW: number, targetH: number, sequence?: SequenceMetrics) => {
+    const slots = urls.map((url, i) => (url ? i : -1)).filter(i => i >= 0);
+    const processed = await processGeneratedFrames(
+        slots.map(i => urls[i] as string),
+        targetW,
+        targetH,
+        config.zoom,
+        config.background,
+        config.normalization,
+        imagePreview || undefined,
+        sequence,
+        config.color,
+        {
+            signal: abortControllerRef.current?.signal,
+            onProgress: (done, total) => setGeneration(prev => ({
+                ...prev,
+                progress: Math.max(prev.progress, 60 + Math.round((done / total) * 15)),
+                statusMessage: `正在处理并居中校正 (${Math.ceil(done / 2)}/${Math.ceil(total / 2)})...`
+            }))
+        }
+    );
+    // Keep the untouched model outputs for the history before the URLs go away
+    const raw = await Promise.all(urls.map(url => (url ? fetch(url).then(r => r.blob()) : null)));
+    slots.forEach(i => URL.revokeObjectURL(urls[i] as string));
+
+    // Frames without a detectable character are dropped, but each frame keeps its input position
+    const bySlot = new Map<number, GeneratedFrame>(processed.map(frame => [slots[frame.index], frame]));
+    const missing = urls.map((_, i) => i).filter(i => !bySlot.has(i));
+    return { bySlot, missing, raw };
+  };
+
+  const handleRetryFailed = async () => {
+    const frames = generation.frames;
+    const failed = generation.failedIndices;
+    const blocked = generation.blockedIndices || [];
+    // Blocked slots would only fail again, so they stay failed until the prompt or reference changes
+    const retryable = failed?.filter(i => !blocked.includes(i)) || [];
+    if (!frames || !failed || retryable.length === 0 || !imagePreview || !imageFile || !config.prompt) return;
+
+    abortControllerRef.current = new AbortController();
+    setGeneration(prev => ({
+      ...prev,
+      isGenerating: true,
+      progress: 10,
+      statusMessage: `正在重试 ${retryable.length} 帧...`,
+      error: undefined
+    }));
+
+    try {
+        // Chained retries continue from the frames around each gap
+        const completed: (Blob | null)[] = new Array(frames.length + failed.length).fill(null);
+        frameSlots(frames.length, failed).forEach((slot, i) => { completed[slot] = frames[i].blob; });
+
+        const result = await generateAnimationFrames(
+            provider,
+            imagePreview.split(',')[1],
+            imageFile.type,
+            config.prompt,
+            frames.length + failed.length,
+            abortControllerRef.current.signal,
+            {
+                mode: config.generationMode,
+                chainFirstFrame: config.chainFirstFrame,
+                indices: retryable,
+                completed,
+                poses: framePoses(config),
+                onProgress: (done, total) => setGeneration(prev => ({
+                    ...prev,
+                    progress: 10 + Math.round((done / total) * 60),
+                    statusMessage: `正在重试失败帧 (${done}/${total})...`
+                }))
+            }
+        );
+
+        const targetW = frames[0].width || originalDimensions?.width || 512;
+        const targetH = frames[0].height || originalDimensions?.height || 512;
+        const { bySlot, raw } = await processFrameSlots(result.urls, targetW, targetH, frames[0].registration);
+        retryable.forEach(i => { rawOutputsRef.current[i] = raw[i]; });
+
+        // Rebuild the sequence slot by slot, so each retried frame lands in its own gap
+        let next = 0;
+        const merged = Array.from({ length: frames.length + failed.length }, (_, slot) => (failed.includes(slot) ? bySlot.get(slot) : frames[next++]))
+            .filter((frame): frame is GeneratedFrame => frame !== undefined);
+        const stillFailed = failed.filter(i => !bySlot.has(i));
+        const nowBlocked = [...blocked, ...result.failures.filter(f => !f.retryable).map(f => f.index)];
+
+        setGeneration(prev => ({
+            ...prev,
+            isGenerating: false,
+            progress: 100,
+            failedIndices: stillFailed.length > 0 ? stillFailed : undefined,
+            blockedIndices: nowBlocked.length > 0 ? nowBlocked.sort((a, b) => a - b) : undefined
+        }));
+        await applyFrameEdit(await assessFrames(merged));
+    } catch (e: any) {
+        if (e.message === "Generation aborted by user.") {
+             return;
+        }
+        console.error("Retry error:", e);
+        setGeneration(prev => ({ ...prev, isGenerating: false, error: e.message || "重试失败" }));
+    }
+  };
+
+  // Generates and processes a new version of one frame, registered against the rest of the sequence
+  // `failed` lists the failed slots around the frames, so the raw output is stored in the right slot
+  const generateReplacementFrame = async (frames: GeneratedFrame[], index: number, failed: number[] = [], signal?: AbortSignal) => {
+    if (!imagePreview || !imageFile) return null;
+
+    // In chained mode the neighbours anchor the new frame to the existing sequence
+    const context = config.generationMode === 'chained' && index > 0
+        ? {
+            previousFrame: await blobToInlineImage(frames[index - 1].blob),
+            firstFrame: config.chainFirstFrame && index > 1 ? await blobToInlineImage(frames[0].blob) : undefined,
+            pose: poseForFrame(framePoses(config), index, frames.length),
+          }
+        : { pose: poseForFrame(framePoses(config), index, frames.length) };
+
+    const url = await generateFrameWithRetry(
+        provider,
+        imagePreview.split(',')[1],
+        imageFile.type,
+        config.prompt,
+        index,
+        frames.length,
+        context,
+        signal
+    );
+
+    const targetW = frames[0].width || originalDimensions?.width || 512;
+    const targetH = frames[0].height || originalDimensions?.height || 512;
+    const [frame] = await processGeneratedFrames(
+        [url],
+        targetW,
+        targetH,
+        config.zoom,
+        config.background,
+        config.normalization,
+        imagePreview,
+        frames[0].registration,
+        config.color
+    );
+    rawOutputsRef.current[frameSlots(frames.length, failed)[index]] = await fetch(url).then(r => r.blob());
+    URL.revokeObjectURL(url);
+    return frame || null;
+  };
+
+  // Runs the automatic quality checks, or clears old flags when they are turned off
+  const assessFrames = async (frames: GeneratedFrame[]) => {
+    if (!config.quality.enabled) return frames.map(frame => ({ ...frame, qualityIssues: undefined }));
+    const reference = imagePreview ? await loadReferencePixels(imagePreview, config.background) : null;
+    return withQualityIssues(frames, reference ? colorHistogram(reference) : null);
+  };
+
+  // Regenerates flagged frames until they pass or the retry budget is spent; frames that still fail stay flagged
+  const regenerateFlaggedFrames = async (frames: GeneratedFrame[], failed: number[], signal: AbortSignal) => {
+    let current = frames;
+    for (let round = 1; round <= config.quality.autoRetries; round++) {
+        const flagged = current.map((frame, i) => (frame.qualityIssues ? i : -1)).filter(i => i >= 0);
+        if (flagged.length === 0) break;
+
+        for (let n = 0; n < flagged.length; n++) {
+            const index = flagged[n];
+            setGeneration(prev => ({
+                ...prev,
+                statusMessage: `正在重新生成未通过检查的帧 (第 ${round} 轮 ${n + 1}/${flagged.length})...`
+            }));
+            try {
+                const frame = await generateReplacementFrame(current, index, failed, signal);
+                if (frame) current = current.map((f, i) => (i === index ? { ...frame, index: i } : f));
+            } catch (e: any) {
+                if (e.message === "Generation aborted by user.") throw e;
+                console.warn(`Automatic regeneration of frame ${index + 1} failed`, e);
+            }
+        }
+        current = await assessFrames(current);
+    }
+    return current;
+  };
+
+  const handleRegenerateFrame = async (index: number) => {
+    const frames = generation.frames;
+    if (!frames || !imagePreview || !imageFile || !config.prompt) return;
+
+    if (!apiKeyReady) {
+        const success = await handleApiKeySelect();
+        if (!success) {
+            setAuthError("需要API Key才能生成动画，请选择一个项目。");
+            return;
+        }
+    }
+
+    setRegeneratingIndex(index);
+    setGeneration(prev => ({ ...prev, error: undefined }));
+
+    try {
+        const frame = await generateReplacementFrame(frames, index, generation.failedIndices);
+        if (!frame) {
+            throw new Error("新生成的帧中没有识别到角色。");
+        }
+
+        // The timeline is locked while regenerating, so the other frames are unchanged
+        const checked = await assessFrames(frames.map((f, i) => (i === index ? frame : f)));
+        setRegeneratingIndex(null);
+        applyFrameEdit(checked);
+    } catch (e: any) {
+        console.error("Frame regeneration error:", e);
+        setRegeneratingIndex(null);
+        setGeneration(prev => ({ ...prev, error: e.message || "重新生成失败" }));
+    }
+  };
+
+  // Appends a frame conditioned on the last and the first, so a forward loop closes smoothly
+  const handleBridgeLoop = async () => {
+    const frames = generation.frames;
+    if (!frames || frames.length < 2 || !imagePreview || !imageFile || !config.prompt) return;
+
+    if (!apiKeyReady) {
+        const success = await handleApiKeySelect();
+        if (!success) {
+            setAuthError("需要API Key才能生成动画，请选择一个项目。");
+            return;
+        }
+    }
+
+    const index = frames.length;
+    setRegeneratingIndex(index);
+    setGeneration(prev => ({ ...prev, error: undefined }));
+
+    try {
+        const url = await generateFrameWithRetry(
+            provider,
+            imagePreview.split(',')[1],
+            imageFile.type,
+            config.prompt,
+            index,
+            frames.length + 1,
+            {
+                previousFrame: await blobToInlineImage(frames[index - 1].blob),
+                nextFrame: await blobToInlineImage(frames[0].blob),
+                pose: 'Transition pose that carries the motion from the previous frame back into the next one, so the loop restarts smoothly.',
+            }
+        );
+
+        const [frame] = await processGeneratedFrames(
+            [url],
+            frames[0].width || originalDimensions?.width || 512,
+            frames[0].height || originalDimensions?.height || 512,
+            config.zoom,
+            config.background,
+            config.normalization,
+            imagePreview,
+            frames[0].registration,
+            config.color
+        );
+        rawOutputsRef.current = [...rawOutputsRef.current, await fetch(url).then(r => r.blob())];
+        URL.revokeObjectURL(url);
+
+        if (!frame) {
+            throw new Error("衔接帧中没有识别到角色。");
+        }
+
+        const checked = await assessFrames([...frames, frame]);
+        setRegeneratingIndex(null);
+        setPreviewIndex(index);
+        applyFrameEdit(checked);
+    } catch (e: any) {
+        console.error("Loop bridge error:", e);
+        setRegeneratingIndex(null);
+        setGeneration(prev => ({ ...prev, error: e.message || "衔接帧生成失败" }));
+    }
+  };
+
+  const handleImportSheet = async () => {
+    if (!sheetUrl) return;
+
+    setGeneration({
+      isGenerating: true,
+      progress: 10,
+      statusMessage: '正在切分精灵图...'
+    });
+    setApngUrl(null);
+    sessionIdRef.current = createSessionId();
+    rawOutputsRef.current = [];
+
+    try {
+        const frames = await sliceSpriteSheet(sheetUrl, sheetOptions, config.outputSize?.width, config.outputSize?.height, config.zoom, config.background, config.normalization);
+        if (frames.length === 0) {
+            throw new Error("精灵图中没有找到可用的帧。");
+        }
+
+        setGeneration(prev => ({
+            ...prev,
+            progress: 70,
+            statusMessage: '正在打包 APNG, GIF 和序列帧...',
+            frames
+        }));
+
+        const exports = await buildExports(frames);
+
+        setGeneration(prev => ({
+            ...prev,
+            isGenerating: false,
+            progress: 100,
+            statusMessage: '完成!',
+            ...exports
+        }));
+        persistSession(frames);
+    } catch (e: any) {
+        console.error("Sprite sheet import error:", e);
+        setGeneration(prev => ({
+            ...prev,
+            isGenerating: false,
+            error: e.message || "精灵图导入失败"
+        }));
+    }
+  };
+
+  const handleImportVideo = async () => {
+    if (!clipUrl) return;
+
+    abortControllerRef.current = new AbortController();
+
+    setGeneration({
+      isGenerating: true,
+      progress: 10,
+      statusMessage: '正在解码视频帧...'
+    });
+    setApngUrl(null);
+    sessionIdRef.current = createSessionId();
+    rawOutputsRef.current = [];
+
+    try {
+        const frames = await extractFramesFromVideo(
+            clipUrl,
+            videoOptions,
+            config.outputSize?.width,
+            config.outputSize?.height,
+            config.zoom,
+            abortControllerRef.current.signal,
+            config.background,
+            config.normalization
+        );
+        if (frames.length === 0) {
+            throw new Error("视频中没有提取到可用的帧。");
+        }
+
+        setGeneration(prev => ({
+            ...prev,
+            progress: 70,
+            statusMessage: '正在打包 APNG, GIF 和序列帧...',
+            frames
+        }));
+
+        const exports = await buildExports(frames);
+
+        setGeneration(prev => ({
+            ...prev,
+            isGenerating: false,
+            progress: 100,
+            statusMessage: '完成!',
+            ...exports
+        }));
+        persistSession(frames);
+    } catch (e: any) {
+        if (e.message === "Generation aborted by user.") {
+             return;
+        }
+        console.error("Video import error:", e);
+        setGeneration(prev => ({
+            ...prev,
+            isGenerating: false,
+            error: e.message || "视频导入失败"
+        }));
+    }
   };
 
   const handleStop = () => {
@@ -139,8 +1036,17 @@ function App() {
 
     if (!imagePreview || !config.prompt || !imageFile) return;
 
+    if (config.scriptEnabled) {
+        const { errors } = parseFrameScript(config.script, config.frameCount);
+        if (errors.length > 0) {
+            setGeneration(prev => ({ ...prev, error: `逐帧脚本有误：${errors[0]}` }));
+            return;
+        }
+    }
+
     // Setup AbortController
     abortControllerRef.current = new AbortController();
+    sessionIdRef.current = createSessionId();
 
     setGeneration({
       isGenerating: true,
@@ -160,66 +1066,71 @@ function App() {
         }));
         
         // Generate distinct frames individually
-        const frameUrls = await generateAnimationFrames(
+        const result = await generateAnimationFrames(
+            provider,
             base64Data, 
             mimeType, 
             config.prompt, 
             config.frameCount,
-            abortControllerRef.current.signal
+            abortControllerRef.current.signal,
+            {
+                mode: config.generationMode,
+                chainFirstFrame: config.chainFirstFrame,
+                poses: framePoses(config),
+                onProgress: (done, total) => setGeneration(prev => ({
+                    ...prev,
+                    progress: 20 + Math.round((done / total) * 40),
+                    statusMessage: `正在生成画面 (${done}/${total})...`
+                }))
+            }
         );
         
         setGeneration(prev => ({ ...prev, progress: 60, statusMessage: '正在处理并居中校正...' }));
         
         // Pass original dimensions AND config settings to the processor
-        const targetW = originalDimensions?.width || 512;
-        const targetH = originalDimensions?.height || 512;
+        const targetW = config.outputSize?.width || originalDimensions?.width || 512;
+        const targetH = config.outputSize?.height || originalDimensions?.height || 512;
         
-        const frames = await processGeneratedFrames(
-            frameUrls, 
-            targetW, 
-            targetH, 
-            config.zoom
-        );
+        const { bySlot, missing, raw } = await processFrameSlots(result.urls, targetW, targetH);
+        rawOutputsRef.current = raw;
+        let frames = [...bySlot.entries()]
+            .sort((a, b) => a[0] - b[0])
+            .map(([, frame], i) => ({ ...frame, index: i }));
+
+        if (frames.length === 0) {
+            throw new Error("所有帧都未能识别到角色，请重试。");
+        }
+
+        frames = await assessFrames(frames);
+        if (frames.some(f => f.qualityIssues) && config.quality.autoRetries > 0) {
+            setGeneration(prev => ({ ...prev, progress: 65, frames }));
+            frames = await regenerateFlaggedFrames(frames, missing, abortControllerRef.current.signal);
+        }
+        const flaggedCount = frames.filter(f => f.qualityIssues).length;
+
+        const blocked = result.failures.filter(f => !f.retryable).map(f => f.index);
 
         setGeneration(prev => ({ 
             ...prev, 
             progress: 80, 
             statusMessage: '正在打包 APNG, GIF 和序列帧...',
-            frames
+            frames,
+            failedIndices: missing.length > 0 ? missing : undefined,
+            blockedIndices: blocked.length > 0 ? blocked : undefined
         }));
 
-        // 1. Create APNG
-        const apngBlob = await createApng(frames, config.fps);
-        const finalUrl = URL.createObjectURL(apngBlob);
-        setApngUrl(finalUrl);
-
-        // 2. Create GIF
-        let gifUrl = undefined;
-        try {
-            const gifBlob = await createGif(frames, config.fps);
-            gifUrl = URL.createObjectURL(gifBlob);
-        } catch (e) {
-            console.warn("GIF creation failed", e);
-        }
-
-        // 3. Create ZIP
-        let zipUrl = undefined;
-        try {
-            const zipBlob = await createZip(frames);
-            zipUrl = URL.createObjectURL(zipBlob);
-        } catch (e) {
-             console.warn("ZIP creation failed", e);
-        }
+        const exports = await buildExports(frames);
 
         setGeneration(prev => ({ 
             ...prev, 
             isGenerating: false, 
             progress: 100, 
-            statusMessage: '完成!',
-            videoUrl: finalUrl,
-            gifUrl,
-            zipUrl
+            statusMessage: missing.length > 0
+                ? `完成，${missing.length} 帧生成失败`
+                : flaggedCount > 0 ? `完成，${flaggedCount} 帧未通过质量检查` : '完成!',
+            ...exports
         }));
+        persistSession(frames);
 
     } catch (e: any) {
         if (e.message === "Generation aborted by user.") {
@@ -277,12 +1188,48 @@ function App() {
               <h1 className="text-lg font-bold tracking-tight text-gray-900 leading-tight">ToonMotion</h1>
               <div className="flex items-center gap-1.5">
                 <span className="w-1.5 h-1.5 rounded-full bg-green-500 animate-pulse"></span>
-                <span className="text-[10px] font-medium text-gray-500 uppercase tracking-wide">Powered by Gemini</span>
+                <span className="text-[10px] font-medium text-gray-500 uppercase tracking-wide">Powered by {provider.name}</span>
               </div>
             </div>
           </div>
           
           <div className="flex items-center gap-4">
+             <button
+                onClick={() => setHistoryOpen(true)}
+                disabled={generation.isGenerating}
+                className={`flex items-center gap-2 px-4 py-2 text-xs font-semibold rounded-full transition-all border shadow-sm bg-white ${
+                    historyError ? 'text-amber-600 border-amber-200 hover:bg-amber-50' : 'text-gray-600 border-gray-200 hover:bg-gray-50'
+                } disabled:opacity-50`}
+                title={historyError || '历史记录'}
+             >
+                <History className="w-3.5 h-3.5" /> 历史
+             </button>
+             <button
+                onClick={() => projectInputRef.current?.click()}
+                disabled={generation.isGenerating}
+                className="flex items-center gap-2 px-4 py-2 text-xs font-semibold rounded-full transition-all border shadow-sm bg-white text-gray-600 border-gray-200 hover:bg-gray-50 disabled:opacity-50"
+                title={`打开 ${PROJECT_EXTENSION} 工程文件`}
+             >
+                <FolderOpen className="w-3.5 h-3.5" /> 打开工程
+             </button>
+             <input
+                ref={projectInputRef}
+                type="file"
+                accept={`${PROJECT_EXTENSION},application/zip`}
+                onChange={handleImportProject}
+                className="hidden"
+             />
+             <select
+                value={config.providerId}
+                onChange={(e) => setConfig({ ...config, providerId: e.target.value as FrameProviderId })}
+                disabled={generation.isGenerating}
+                className="bg-white border border-gray-200 rounded-full px-3 py-2 text-xs font-semibold text-gray-600 shadow-sm outline-none focus:ring-2 focus:ring-yellow-500 disabled:opacity-50"
+                title="生成引擎"
+             >
+                {Object.values(FRAME_PROVIDERS).map(p => (
+                    <option key={p.id} value={p.id}>{p.name}</option>
+                ))}
+             </select>
              <button 
                 onClick={handleApiKeySelect}
                 className={`flex items-center gap-2 px-4 py-2 text-xs font-semibold rounded-full transition-all border shadow-sm ${
@@ -298,6 +1245,13 @@ function App() {
         </div>
       </header>
 
+      <HistoryGallery
+        open={historyOpen}
+        error={historyError}
+        onClose={() => setHistoryOpen(false)}
+        onOpen={handleOpenSession}
+      />
+
       <main className="max-w-6xl mx-auto px-6 py-8 grid grid-cols-1 lg:grid-cols-12 gap-8">
         <div className="lg:col-span-5 space-y-6">
           {authError && (
@@ -357,6 +1311,201 @@ function App() {
             </div>
           </section>
 
+          <section className="bg-white rounded-2xl p-1 border border-gray-200 shadow-sm">
+            <div className="p-5 rounded-xl">
+                <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-xs font-bold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+                        {importMode === 'spritesheet' ? <Grid3x3 className="w-4 h-4" /> : <Film className="w-4 h-4" />}
+                        或导入已有素材
+                    </h2>
+                    <div className="flex bg-gray-100 rounded-lg p-0.5 text-xs font-medium">
+                        {([['spritesheet', '精灵图'], ['video', '视频']] as const).map(([mode, label]) => (
+                            <button
+                                key={mode}
+                                onClick={() => setImportMode(mode)}
+                                className={`px-3 py-1 rounded-md transition-all ${importMode === mode ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                {importMode === 'spritesheet' ? (
+                <div className="space-y-4">
+                    <div className="flex items-center gap-3">
+                        <button
+                            onClick={() => sheetInputRef.current?.click()}
+                            disabled={generation.isGenerating}
+                            className="px-4 py-2 rounded-lg text-sm font-medium border border-gray-300 bg-white text-gray-700 hover:bg-gray-50 transition-all disabled:opacity-50 shadow-sm flex items-center gap-2"
+                        >
+                            <Upload className="w-4 h-4" /> 选择精灵图
+                        </button>
+                        <input
+                            ref={sheetInputRef}
+                            type="file"
+                            accept="image/*"
+                            onChange={handleSheetUpload}
+                            className="hidden"
+                        />
+                        {sheetUrl && (
+                            <img src={sheetUrl} alt="Sprite sheet" className="h-10 max-w-[160px] object-contain rounded border border-gray-200 bg-white" />
+                        )}
+                    </div>
+
+                    {sheetUrl && (
+                    <>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">切分方式</label>
+                            <select
+                                value={sheetOptions.mode}
+                                onChange={(e) => setSheetOptions({ ...sheetOptions, mode: e.target.value as SpriteSheetOptions['mode'] })}
+                                className="w-full bg-white border border-gray-300 rounded-lg px-3 py-2 text-sm text-gray-700 focus:ring-2 focus:ring-yellow-500 outline-none"
+                            >
+                                <option value="grid">按行列数</option>
+                                <option value="cellSize">按单元格尺寸</option>
+                                <option value="auto">自动识别（透明间隔）</option>
+                            </select>
+                        </div>
+
+                        {sheetOptions.mode !== 'auto' && (
+                        <div className="grid grid-cols-2 gap-3">
+                            {(sheetOptions.mode === 'grid'
+                                ? [['rows', '行数'], ['columns', '列数']] as const
+                                : [['cellWidth', '单元格宽 (px)'], ['cellHeight', '单元格高 (px)']] as const
+                            ).map(([key, label]) => (
+                                <div key={key}>
+                                    <label className="block text-xs font-medium text-gray-600 mb-1">{label}</label>
+                                    <input
+                                        type="number"
+                                        min={1}
+                                        value={sheetOptions[key] ?? 1}
+                                        onChange={(e) => setSheetOptions({ ...sheetOptions, [key]: parseInt(e.target.value) || 1 })}
+                                        className="w-full bg-white border border-gray-300 rounded-lg px-3 py-2 text-sm text-gray-700 focus:ring-2 focus:ring-yellow-500 outline-none"
+                                    />
+                                </div>
+                            ))}
+                            {([['margin', '外边距 (px)'], ['spacing', '间距 (px)']] as const).map(([key, label]) => (
+                                <div key={key}>
+                                    <label className="block text-xs font-medium text-gray-600 mb-1">{label}</label>
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        value={sheetOptions[key] ?? 0}
+                                        onChange={(e) => setSheetOptions({ ...sheetOptions, [key]: parseInt(e.target.value) || 0 })}
+                                        className="w-full bg-white border border-gray-300 rounded-lg px-3 py-2 text-sm text-gray-700 focus:ring-2 focus:ring-yellow-500 outline-none"
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                        )}
+
+                        <button
+                            onClick={handleImportSheet}
+                            disabled={generation.isGenerating}
+                            className="w-full py-3 rounded-xl font-bold text-sm flex items-center justify-center gap-2 transition-all border border-yellow-300 bg-yellow-50 text-yellow-700 hover:bg-yellow-100 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            <Layers className="w-4 h-4" /> 导入并打包
+                        </button>
+                    </>
+                    )}
+                </div>
+                ) : (
+                <div className="space-y-4">
+                    <div className="flex items-center gap-3">
+                        <button
+                            onClick={() => clipInputRef.current?.click()}
+                            disabled={generation.isGenerating}
+                            className="px-4 py-2 rounded-lg text-sm font-medium border border-gray-300 bg-white text-gray-700 hover:bg-gray-50 transition-all disabled:opacity-50 shadow-sm flex items-center gap-2"
+                        >
+                            <Upload className="w-4 h-4" /> 选择视频
+                        </button>
+                        <input
+                            ref={clipInputRef}
+                            type="file"
+                            accept="video/mp4,video/webm"
+                            onChange={handleClipUpload}
+                            className="hidden"
+                        />
+                        {clipUrl && clipDuration > 0 && (
+                            <span className="text-xs font-mono bg-gray-100 border border-gray-200 px-2 py-0.5 rounded text-gray-600">{clipDuration.toFixed(2)}s</span>
+                        )}
+                    </div>
+
+                    {clipUrl && (
+                    <>
+                        <video src={clipUrl} muted controls className="w-full max-h-40 rounded-lg border border-gray-200 bg-gray-900" />
+
+                        <div className="grid grid-cols-2 gap-3">
+                            <div>
+                                <label className="block text-xs font-medium text-gray-600 mb-1">开始时间 (秒)</label>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    max={clipDuration || undefined}
+                                    step={0.1}
+                                    value={videoOptions.startTime}
+                                    onChange={(e) => setVideoOptions({ ...videoOptions, startTime: parseFloat(e.target.value) || 0 })}
+                                    className="w-full bg-white border border-gray-300 rounded-lg px-3 py-2 text-sm text-gray-700 focus:ring-2 focus:ring-yellow-500 outline-none"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-xs font-medium text-gray-600 mb-1">结束时间 (秒)</label>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    max={clipDuration || undefined}
+                                    step={0.1}
+                                    value={videoOptions.endTime ?? ''}
+                                    onChange={(e) => setVideoOptions({ ...videoOptions, endTime: parseFloat(e.target.value) || undefined })}
+                                    className="w-full bg-white border border-gray-300 rounded-lg px-3 py-2 text-sm text-gray-700 focus:ring-2 focus:ring-yellow-500 outline-none"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-xs font-medium text-gray-600 mb-1">采样方式</label>
+                                <select
+                                    value={videoOptions.sampling}
+                                    onChange={(e) => setVideoOptions({ ...videoOptions, sampling: e.target.value as VideoImportOptions['sampling'] })}
+                                    className="w-full bg-white border border-gray-300 rounded-lg px-3 py-2 text-sm text-gray-700 focus:ring-2 focus:ring-yellow-500 outline-none"
+                                >
+                                    <option value="frameCount">目标帧数</option>
+                                    <option value="fps">采样帧率</option>
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-xs font-medium text-gray-600 mb-1">
+                                    {videoOptions.sampling === 'frameCount' ? '帧数' : 'FPS'}
+                                </label>
+                                <input
+                                    type="number"
+                                    min={1}
+                                    max={videoOptions.sampling === 'frameCount' ? 120 : 30}
+                                    value={(videoOptions.sampling === 'frameCount' ? videoOptions.frameCount : videoOptions.sampleFps) ?? 1}
+                                    onChange={(e) => {
+                                        const value = parseInt(e.target.value) || 1;
+                                        setVideoOptions(videoOptions.sampling === 'frameCount'
+                                            ? { ...videoOptions, frameCount: value }
+                                            : { ...videoOptions, sampleFps: value });
+                                    }}
+                                    className="w-full bg-white border border-gray-300 rounded-lg px-3 py-2 text-sm text-gray-700 focus:ring-2 focus:ring-yellow-500 outline-none"
+                                />
+                            </div>
+                        </div>
+
+                        <button
+                            onClick={handleImportVideo}
+                            disabled={generation.isGenerating}
+                            className="w-full py-3 rounded-xl font-bold text-sm flex items-center justify-center gap-2 transition-all border border-yellow-300 bg-yellow-50 text-yellow-700 hover:bg-yellow-100 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            <Film className="w-4 h-4" /> 提取并打包
+                        </button>
+                    </>
+                    )}
+                </div>
+                )}
+            </div>
+          </section>
+
           <section className="bg-white rounded-2xl p-1 border border-gray-200 shadow-sm">
              <div className="p-5 rounded-xl">
                 <h2 className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-4 flex items-center gap-2">
@@ -365,6 +1514,12 @@ function App() {
                 </h2>
 
                 <div className="space-y-5">
+                <MotionPresetPanel
+                    config={config}
+                    onApply={handleApplyMotionPreset}
+                    onClearPoses={() => setConfig(prev => ({ ...prev, poses: [] }))}
+                />
+
                 <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
                     动作提示词
@@ -377,6 +1532,33 @@ function App() {
                     />
                 </div>
 
+                <FrameScriptEditor
+                    config={config}
+                    onChange={(patch) => setConfig(prev => ({ ...prev, ...patch }))}
+                />
+
+                {/* Sticker Platform */}
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2 flex items-center gap-1">
+                        <Sticker className="w-3.5 h-3.5" /> 发布平台
+                    </label>
+                    <select
+                        value={config.platform}
+                        onChange={(e) => handlePlatformChange(e.target.value as StickerPlatformId)}
+                        className="w-full bg-white border border-gray-300 rounded-lg px-3 py-2 text-sm text-gray-700 focus:ring-2 focus:ring-yellow-500 outline-none"
+                    >
+                        <option value="none">不限（按参考图尺寸）</option>
+                        {Object.values(STICKER_PLATFORMS).map(p => (
+                            <option key={p.id} value={p.id}>{p.name} · {p.format.toUpperCase()} · {p.width}×{p.height} · ≤{p.maxSizeKB}KB</option>
+                        ))}
+                    </select>
+                    {config.platform !== 'none' && (
+                        <p className="text-xs text-gray-400 mt-2">
+                            已按平台规则设置尺寸、帧数、帧率和循环；导出后自动校验并适配。{STICKER_PLATFORMS[config.platform].note}
+                        </p>
+                    )}
+                </div>
+
                 <div className="grid grid-cols-2 gap-4">
                     <div>
                         <label className="block text-sm font-medium text-gray-700 mb-2 flex items-center gap-1">
@@ -387,12 +1569,10 @@ function App() {
                             onChange={(e) => setConfig({...config, frameCount: parseInt(e.target.value)})}
                             className="w-full bg-white border border-gray-300 rounded-lg px-3 py-2 text-sm text-gray-700 focus:ring-2 focus:ring-yellow-500 outline-none"
                         >
-                            <option value={2}>2 帧</option>
-                            <option value={4}>4 帧</option>
-                            <option value={6}>6 帧</option>
-                            <option value={8}>8 帧</option>
-                            <option value={10}>10 帧</option>
-                            <option value={12}>12 帧</option>
+                            {/* Presets may recommend counts outside the usual steps */}
+                            {Array.from(new Set([2, 4, 6, 8, 10, 12, config.frameCount])).sort((a, b) => a - b).map(n => (
+                                <option key={n} value={n}>{n} 帧</option>
+                            ))}
                         </select>
                     </div>
 
@@ -406,7 +1586,7 @@ function App() {
                         <input 
                             type="range" 
                             min="4" 
-                            max="12" 
+                            max={Math.max(12, config.fps)} 
                             step="1"
                             value={config.fps}
                             onChange={(e) => setConfig({...config, fps: parseInt(e.target.value)})}
@@ -414,7 +1594,84 @@ function App() {
                         />
                     </div>
                 </div>
+
+                {/* Playback Timing */}
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2 flex items-center gap-1">
+                        <Timer className="w-3.5 h-3.5" /> 播放节奏
+                    </label>
+                    <div className="grid grid-cols-3 gap-3">
+                        <select
+                            value={config.timing.playback}
+                            onChange={(e) => handleTimingChange({ playback: e.target.value as TimingOptions['playback'] })}
+                            className="w-full bg-white border border-gray-300 rounded-lg px-3 py-2 text-sm text-gray-700 focus:ring-2 focus:ring-yellow-500 outline-none"
+                            title="播放方向"
+                        >
+                            <option value="forward">正放</option>
+                            <option value="pingpong">往返</option>
+                        </select>
+                        <select
+                            value={config.timing.loopCount}
+                            onChange={(e) => handleTimingChange({ loopCount: parseInt(e.target.value) })}
+                            className="w-full bg-white border border-gray-300 rounded-lg px-3 py-2 text-sm text-gray-700 focus:ring-2 focus:ring-yellow-500 outline-none"
+                            title="循环次数"
+                        >
+                            <option value={0}>无限循环</option>
+                            <option value={1}>播放 1 次</option>
+                            <option value={2}>播放 2 次</option>
+                            <option value={3}>播放 3 次</option>
+                            <option value={5}>播放 5 次</option>
+                        </select>
+                        <select
+                            value={config.timing.easing}
+                            onChange={(e) => handleTimingChange({ easing: e.target.value as TimingOptions['easing'] })}
+                            className="w-full bg-white border border-gray-300 rounded-lg px-3 py-2 text-sm text-gray-700 focus:ring-2 focus:ring-yellow-500 outline-none"
+                            title="节奏曲线"
+                        >
+                            <option value="linear">匀速</option>
+                            <option value="easeIn">缓入</option>
+                            <option value="easeOut">缓出</option>
+                            <option value="easeInOut">缓入缓出</option>
+                            <option value="holdKeys">关键帧停顿</option>
+                        </select>
+                    </div>
+                    <p className="text-xs text-gray-400 mt-2">在时间轴上用 +/− 调整单帧停留拍数。</p>
+                </div>
                 
+                {/* Generation Mode */}
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2 flex items-center gap-1">
+                        <Link2 className="w-3.5 h-3.5" /> 生成模式
+                    </label>
+                    <div className="grid grid-cols-2 gap-2">
+                        {([['parallel', '并行', '速度快'], ['chained', '链式', '动作更连贯']] as const).map(([mode, label, hint]) => (
+                            <button
+                                key={mode}
+                                onClick={() => setConfig({ ...config, generationMode: mode })}
+                                className={`px-3 py-2 rounded-lg border text-left transition-all ${
+                                    config.generationMode === mode
+                                    ? 'border-yellow-500 bg-yellow-50 text-yellow-800'
+                                    : 'border-gray-300 bg-white text-gray-600 hover:bg-gray-50'
+                                }`}
+                            >
+                                <span className="block text-sm font-medium">{label}</span>
+                                <span className="block text-[10px] opacity-70">{hint}</span>
+                            </button>
+                        ))}
+                    </div>
+                    {config.generationMode === 'chained' && (
+                        <label className="flex items-center gap-2 mt-2 text-xs text-gray-600 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={config.chainFirstFrame}
+                                onChange={(e) => setConfig({ ...config, chainFirstFrame: e.target.checked })}
+                                className="accent-yellow-500"
+                            />
+                            同时参考首帧（保持循环首尾一致）
+                        </label>
+                    )}
+                </div>
+
                 {/* Scale Slider */}
                 <div>
                     <div className="flex justify-between items-center mb-2">
@@ -434,6 +1691,176 @@ function App() {
                     />
                 </div>
 
+                {/* Background Removal */}
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2 flex items-center gap-1">
+                        <Eraser className="w-3.5 h-3.5" /> 背景去除
+                    </label>
+                    <select
+                        value={config.background.mode}
+                        onChange={(e) => setConfig({ ...config, background: { ...config.background, mode: e.target.value as BackgroundRemovalMode } })}
+                        className="w-full bg-white border border-gray-300 rounded-lg px-3 py-2 text-sm text-gray-700 focus:ring-2 focus:ring-yellow-500 outline-none mb-3"
+                    >
+                        <option value="floodFill">智能边缘（保留内部白色）</option>
+                        <option value="threshold">全局阈值（去除所有白色）</option>
+                    </select>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <div className="flex justify-between items-center mb-1">
+                                <span className="text-xs text-gray-600">白色阈值</span>
+                                <span className="text-xs font-mono text-gray-500">{config.background.threshold}</span>
+                            </div>
+                            <input
+                                type="range"
+                                min="200"
+                                max="254"
+                                step="1"
+                                value={config.background.threshold}
+                                onChange={(e) => setConfig({ ...config, background: { ...config.background, threshold: parseInt(e.target.value) } })}
+                                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-yellow-500"
+                            />
+                        </div>
+                        {config.background.mode === 'floodFill' && (
+                        <div>
+                            <div className="flex justify-between items-center mb-1">
+                                <span className="text-xs text-gray-600">边缘柔化</span>
+                                <span className="text-xs font-mono text-gray-500">{config.background.tolerance}</span>
+                            </div>
+                            <input
+                                type="range"
+                                min="0"
+                                max="80"
+                                step="5"
+                                value={config.background.tolerance}
+                                onChange={(e) => setConfig({ ...config, background: { ...config.background, tolerance: parseInt(e.target.value) } })}
+                                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-yellow-500"
+                            />
+                        </div>
+                        )}
+                    </div>
+                </div>
+
+                {/* Sequence Registration */}
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2 flex items-center gap-1">
+                        <Crosshair className="w-3.5 h-3.5" /> 帧对齐
+                    </label>
+                    <div className="grid grid-cols-2 gap-3">
+                        <select
+                            value={config.normalization.scaleMode === 'perFrame' ? 'perFrame' : config.normalization.scaleSource}
+                            onChange={(e) => {
+                                const value = e.target.value;
+                                setConfig({
+                                    ...config,
+                                    normalization: value === 'perFrame'
+                                        ? { ...config.normalization, scaleMode: 'perFrame' }
+                                        : { ...config.normalization, scaleMode: 'sequence', scaleSource: value as NormalizationOptions['scaleSource'] }
+                                });
+                            }}
+                            className="w-full bg-white border border-gray-300 rounded-lg px-3 py-2 text-sm text-gray-700 focus:ring-2 focus:ring-yellow-500 outline-none"
+                            title="缩放方式"
+                        >
+                            <option value="median">统一缩放（中位帧）</option>
+                            <option value="reference">统一缩放（参考图）</option>
+                            <option value="perFrame">逐帧缩放</option>
+                        </select>
+                        <select
+                            value={config.normalization.anchor}
+                            onChange={(e) => setConfig({ ...config, normalization: { ...config.normalization, anchor: e.target.value as NormalizationOptions['anchor'] } })}
+                            className="w-full bg-white border border-gray-300 rounded-lg px-3 py-2 text-sm text-gray-700 focus:ring-2 focus:ring-yellow-500 outline-none"
+                            title="对齐锚点"
+                        >
+                            <option value="feet">脚底对齐</option>
+                            <option value="centroid">重心对齐</option>
+                            <option value="match">匹配上一帧</option>
+                            <option value="center">包围盒居中</option>
+                        </select>
+                    </div>
+                    <label className="flex items-center gap-2 mt-2 text-xs text-gray-600 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={config.normalization.keepVerticalMotion}
+                            onChange={(e) => setConfig({ ...config, normalization: { ...config.normalization, keepVerticalMotion: e.target.checked } })}
+                            className="accent-yellow-500"
+                        />
+                        保留上下运动（跳跃等动作不被拉平）
+                    </label>
+                </div>
+
+                {/* Color Stabilization */}
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2 flex items-center gap-1">
+                        <Palette className="w-3.5 h-3.5" /> 颜色稳定
+                    </label>
+                    <div className="grid grid-cols-2 gap-3">
+                        <select
+                            value={config.color.mode}
+                            onChange={(e) => setConfig({ ...config, color: { ...config.color, mode: e.target.value as ColorStabilizationOptions['mode'] } })}
+                            className="w-full bg-white border border-gray-300 rounded-lg px-3 py-2 text-sm text-gray-700 focus:ring-2 focus:ring-yellow-500 outline-none"
+                            title="按参考图校正每帧的颜色"
+                        >
+                            <option value="off">关闭</option>
+                            <option value="histogram">直方图匹配</option>
+                            <option value="palette">调色板吸附</option>
+                        </select>
+                        <button
+                            onClick={handleStabilizeColors}
+                            disabled={!generation.frames?.length || !imagePreview || generation.isGenerating || regeneratingIndex !== null}
+                            className="w-full px-3 py-2 rounded-lg border border-gray-300 bg-white text-sm text-gray-600 hover:bg-gray-50 disabled:opacity-40"
+                            title={config.color.mode === 'off' ? '只重新计算色差' : '按当前设置校正已生成的帧'}
+                        >
+                            应用到当前帧
+                        </button>
+                    </div>
+                    {config.color.mode !== 'off' && (
+                    <div className="mt-2">
+                        <div className="flex justify-between text-xs text-gray-500 mb-1">
+                            <span>校正强度</span>
+                            <span className="font-mono">{Math.round(config.color.strength * 100)}%</span>
+                        </div>
+                        <input
+                            type="range"
+                            min="0.1"
+                            max="1"
+                            step="0.05"
+                            value={config.color.strength}
+                            onChange={(e) => setConfig({ ...config, color: { ...config.color, strength: parseFloat(e.target.value) } })}
+                            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-yellow-500"
+                        />
+                    </div>
+                    )}
+                </div>
+
+                {/* Quality Checks */}
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2 flex items-center gap-1">
+                        <ShieldCheck className="w-3.5 h-3.5" /> 质量检查
+                    </label>
+                    <div className="grid grid-cols-2 gap-3">
+                        <label className="flex items-center gap-2 text-xs text-gray-600 cursor-pointer" title="检查裁切、多余角色、尺寸异常和偏色">
+                            <input
+                                type="checkbox"
+                                checked={config.quality.enabled}
+                                onChange={(e) => setConfig({ ...config, quality: { ...config.quality, enabled: e.target.checked } })}
+                                className="accent-yellow-500"
+                            />
+                            生成后自动检查
+                        </label>
+                        <select
+                            value={config.quality.autoRetries}
+                            onChange={(e) => setConfig({ ...config, quality: { ...config.quality, autoRetries: parseInt(e.target.value) } })}
+                            disabled={!config.quality.enabled}
+                            className="w-full bg-white border border-gray-300 rounded-lg px-3 py-2 text-sm text-gray-700 focus:ring-2 focus:ring-yellow-500 outline-none disabled:opacity-50"
+                            title="未通过检查的帧自动重新生成的次数"
+                        >
+                            <option value={0}>只标记，不重试</option>
+                            <option value={1}>自动重试 1 次</option>
+                            <option value={2}>自动重试 2 次</option>
+                            <option value={3}>自动重试 3 次</option>
+                        </select>
+                    </div>
+                </div>
+
                 <div className="flex gap-3 mt-2">
                     <button
                         onClick={handleReset}
@@ -477,6 +1904,14 @@ function App() {
                 </div>
             </div>
           </section>
+
+          <BatchQueuePanel
+            reference={imagePreview && imageFile && originalDimensions
+                ? { dataUrl: imagePreview, mimeType: imageFile.type, name: imageFile.name, ...originalDimensions }
+                : null}
+            config={config}
+            onOpenJob={handleOpenBatchJob}
+          />
         </div>
 
         <div className="lg:col-span-7">
@@ -519,22 +1954,68 @@ function App() {
 
                     {!generation.isGenerating && generation.frames && generation.frames.length > 0 && (
                     <div className="flex flex-col items-center w-full animate-in zoom-in-95 duration-300">
-                        <div className="relative bg-white rounded-lg shadow-lg overflow-hidden border border-gray-200 mb-6 group">
-                        {/* Display at original size or scaled down if too big, but generated frames are actual size */}
-                        <img 
-                            src={generation.frames[previewIndex].dataUrl} 
-                            alt={`Frame ${previewIndex}`}
-                            className="max-w-full max-h-[500px] object-contain"
+                        <PreviewPlayer
+                            frames={generation.frames}
+                            fps={config.fps}
+                            timing={config.timing}
+                            index={previewIndex}
+                            onIndexChange={setPreviewIndex}
+                            referenceUrl={imagePreview}
                         />
-                        <div className="absolute top-3 right-3 bg-white/90 px-2 py-1 rounded border border-gray-200 text-[10px] font-mono text-gray-600 shadow-sm backdrop-blur-sm">
-                             Preview
-                        </div>
-                        <div className="absolute bottom-3 left-1/2 -translate-x-1/2 bg-white/90 px-3 py-1 rounded-full border border-gray-200 text-xs font-medium text-gray-700 shadow-sm backdrop-blur-sm">
-                             帧 {previewIndex + 1} / {generation.frames.length}
-                        </div>
+
+                        {generation.failedIndices && generation.failedIndices.length > 0 && (
+                            <div className="w-full mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg flex items-center gap-3 text-amber-700 text-xs">
+                                <AlertCircle className="w-4 h-4 shrink-0" />
+                                <p className="flex-1">
+                                    {generation.failedIndices.length} 帧生成失败（第 {generation.failedIndices.map(i => i + 1).join(', ')} 帧），已保留其余画面。
+                                    {generation.blockedIndices && generation.blockedIndices.length > 0 && (
+                                        <> 第 {generation.blockedIndices.map(i => i + 1).join(', ')} 帧被安全策略或权限拦截，重试也会失败，请修改提示词后重新生成。</>
+                                    )}
+                                </p>
+                                <button
+                                    onClick={handleRetryFailed}
+                                    disabled={regeneratingIndex !== null || generation.failedIndices.every(i => generation.blockedIndices?.includes(i))}
+                                    className="px-3 py-1.5 rounded-md bg-white border border-amber-300 font-semibold hover:bg-amber-100 flex items-center gap-1 disabled:opacity-50"
+                                >
+                                    <RefreshCw className="w-3 h-3" /> 重试失败帧
+                                </button>
+                            </div>
+                        )}
+
+                        <div className="w-full mb-6">
+                            <FrameTimeline
+                                frames={generation.frames}
+                                activeIndex={previewIndex}
+                                regeneratingIndex={regeneratingIndex}
+                                canRegenerate={!!imagePreview && !!imageFile && !!config.prompt}
+                                onSelect={setPreviewIndex}
+                                onRegenerate={handleRegenerateFrame}
+                                onDelete={handleDeleteFrame}
+                                onDuplicate={handleDuplicateFrame}
+                                onReorder={handleReorderFrame}
+                                onHoldChange={handleHoldChange}
+                            />
                         </div>
 
-                        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 w-full max-w-lg">
+                        <LoopAnalysisPanel
+                            frames={generation.frames}
+                            timing={config.timing}
+                            busy={generation.isGenerating || regeneratingIndex !== null}
+                            bridging={regeneratingIndex === generation.frames.length}
+                            canBridge={!!imagePreview && !!imageFile && !!config.prompt}
+                            onTrim={(start, end) => editTimeline(items => items.slice(start, end + 1))}
+                            onPingPong={() => handleTimingChange({ playback: 'pingpong' })}
+                            onBridge={handleBridgeLoop}
+                        />
+
+                        <InterpolationPanel
+                            frames={generation.frames}
+                            fps={config.fps}
+                            busy={generation.isGenerating || regeneratingIndex !== null}
+                            onApply={handleInterpolate}
+                        />
+
+                        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 w-full max-w-2xl">
                              {/* APNG Download */}
                             <a 
                                 href={apngUrl || '#'} 
@@ -548,7 +2029,9 @@ function App() {
                             >
                                 <Download className="w-5 h-5 mb-1" />
                                 <span className="text-xs font-bold">下载 APNG</span>
-                                <span className="text-[10px] opacity-70">最佳质量</span>
+                                <span className="text-[10px] opacity-70">
+                                    {generation.apngInfo ? formatSize(generation.apngInfo.size) : '计算大小...'}
+                                </span>
                             </a>
 
                             {/* GIF Download */}
@@ -567,6 +2050,38 @@ function App() {
                                 <span className="text-[10px] opacity-70">兼容性好</span>
                             </a>
 
+                            {/* WebP Download */}
+                            <a 
+                                href={generation.webpUrl || '#'} 
+                                download={`toonmotion-${Date.now()}.webp`}
+                                className={`flex flex-col items-center justify-center p-3 rounded-xl border transition-all ${
+                                    generation.webpUrl 
+                                    ? 'bg-white border-teal-200 hover:bg-teal-50 text-teal-700 cursor-pointer shadow-sm hover:shadow-md' 
+                                    : 'bg-gray-100 border-gray-200 text-gray-400 cursor-not-allowed'
+                                }`}
+                                onClick={(e) => !generation.webpUrl && e.preventDefault()}
+                            >
+                                <Sticker className="w-5 h-5 mb-1" />
+                                <span className="text-xs font-bold">下载 WebP</span>
+                                <span className="text-[10px] opacity-70">{generation.webpUrl ? '体积更小' : '浏览器不支持'}</span>
+                            </a>
+
+                            {/* WebM Download */}
+                            <a 
+                                href={generation.webmUrl || '#'} 
+                                download={`toonmotion-${Date.now()}.webm`}
+                                className={`flex flex-col items-center justify-center p-3 rounded-xl border transition-all ${
+                                    generation.webmUrl 
+                                    ? 'bg-white border-sky-200 hover:bg-sky-50 text-sky-700 cursor-pointer shadow-sm hover:shadow-md' 
+                                    : 'bg-gray-100 border-gray-200 text-gray-400 cursor-not-allowed'
+                                }`}
+                                onClick={(e) => !generation.webmUrl && e.preventDefault()}
+                            >
+                                <FileVideo className="w-5 h-5 mb-1" />
+                                <span className="text-xs font-bold">下载 WebM</span>
+                                <span className="text-[10px] opacity-70">{generation.webmUrl ? 'VP9 透明视频' : '浏览器不支持'}</span>
+                            </a>
+
                             {/* ZIP Download */}
                             <a 
                                 href={generation.zipUrl || '#'} 
@@ -582,6 +2097,186 @@ function App() {
                                 <span className="text-xs font-bold">下载序列帧</span>
                                 <span className="text-[10px] opacity-70">PNG ZIP包</span>
                             </a>
+
+                            {/* Sprite Sheet Download */}
+                            <a 
+                                href={generation.spriteSheetUrl || '#'} 
+                                download={`toonmotion-spritesheet-${Date.now()}.zip`}
+                                className={`flex flex-col items-center justify-center p-3 rounded-xl border transition-all ${
+                                    generation.spriteSheetUrl 
+                                    ? 'bg-white border-orange-200 hover:bg-orange-50 text-orange-700 cursor-pointer shadow-sm hover:shadow-md' 
+                                    : 'bg-gray-100 border-gray-200 text-gray-400 cursor-not-allowed'
+                                }`}
+                                onClick={(e) => !generation.spriteSheetUrl && e.preventDefault()}
+                            >
+                                <LayoutGrid className="w-5 h-5 mb-1" />
+                                <span className="text-xs font-bold">下载精灵图集</span>
+                                <span className="text-[10px] opacity-70">PNG + JSON</span>
+                            </a>
+                        </div>
+
+                        {/* Project File */}
+                        <button
+                            onClick={handleExportProject}
+                            disabled={generation.isGenerating || regeneratingIndex !== null}
+                            className="w-full max-w-2xl mt-3 flex items-center justify-center gap-2 py-2 rounded-xl border border-gray-200 bg-white text-xs font-semibold text-gray-600 hover:bg-gray-50 shadow-sm disabled:opacity-50"
+                            title="包含参考图、配置、原始生成帧和处理后的帧，可在其他设备上继续编辑"
+                        >
+                            <FolderDown className="w-4 h-4" /> 保存工程文件 ({PROJECT_EXTENSION})
+                        </button>
+
+                        {/* Sticker Platform Report */}
+                        {generation.stickerReport && (
+                            <StickerReportPanel report={generation.stickerReport} url={generation.stickerUrl} />
+                        )}
+
+                        {/* APNG Size Options */}
+                        <div className="w-full max-w-2xl mt-3 grid grid-cols-3 gap-2 text-xs">
+                            <select
+                                value={config.apng.colors}
+                                onChange={(e) => handleApngOptionsChange({ ...config.apng, colors: parseInt(e.target.value) })}
+                                className="bg-white border border-gray-300 rounded-lg px-2 py-1.5 text-gray-700 outline-none focus:ring-2 focus:ring-yellow-500"
+                                title="APNG 调色板"
+                            >
+                                <option value={0}>无损全彩</option>
+                                <option value={256}>256 色</option>
+                                <option value={128}>128 色</option>
+                                <option value={64}>64 色</option>
+                                <option value={32}>32 色</option>
+                                <option value={16}>16 色</option>
+                            </select>
+                            <select
+                                value={config.apng.deltaTolerance}
+                                onChange={(e) => handleApngOptionsChange({ ...config.apng, deltaTolerance: parseInt(e.target.value) })}
+                                className="bg-white border border-gray-300 rounded-lg px-2 py-1.5 text-gray-700 outline-none focus:ring-2 focus:ring-yellow-500"
+                                title="帧间差分容差：越大，静止区域越稳定、文件越小"
+                            >
+                                <option value={0}>帧间差分：精确</option>
+                                <option value={4}>帧间差分：轻度</option>
+                                <option value={12}>帧间差分：中度</option>
+                                <option value={24}>帧间差分：强力</option>
+                            </select>
+                            <select
+                                value={config.apng.targetSizeKB}
+                                onChange={(e) => handleApngOptionsChange({ ...config.apng, targetSizeKB: parseInt(e.target.value) })}
+                                className="bg-white border border-gray-300 rounded-lg px-2 py-1.5 text-gray-700 outline-none focus:ring-2 focus:ring-yellow-500"
+                                title="自动压缩到指定大小以内"
+                            >
+                                <option value={0}>不限大小</option>
+                                <option value={100}>≤ 100 KB</option>
+                                <option value={300}>≤ 300 KB</option>
+                                <option value={500}>≤ 500 KB</option>
+                                <option value={512}>≤ 512 KB</option>
+                                <option value={1000}>≤ 1 MB</option>
+                            </select>
+                        </div>
+                        {generation.apngInfo && (
+                            <p className={`w-full max-w-2xl mt-1 text-[11px] ${generation.apngInfo.fits ? 'text-gray-500' : 'text-red-500'}`}>
+                                APNG {formatSize(generation.apngInfo.size)} · {generation.apngInfo.colors === 0 ? '全彩' : `${generation.apngInfo.colors} 色`}
+                                {' '}· {generation.apngInfo.width}×{generation.apngInfo.height}
+                                {generation.apngInfo.frameStep > 1 && ` · 每 ${generation.apngInfo.frameStep} 帧保留 1 帧`}
+                                {!generation.apngInfo.fits && ' · 无法压缩到目标大小以内'}
+                            </p>
+                        )}
+
+                        {/* GIF Encoding Options */}
+                        <div className="w-full max-w-2xl mt-3 grid grid-cols-3 gap-2 text-xs">
+                            <select
+                                value={config.gif.palette}
+                                onChange={(e) => handleGifOptionsChange({ ...config.gif, palette: e.target.value as GifOptions['palette'] })}
+                                className="bg-white border border-gray-300 rounded-lg px-2 py-1.5 text-gray-700 outline-none focus:ring-2 focus:ring-yellow-500"
+                                title="GIF 调色板：全局共用一个，或每帧单独生成"
+                            >
+                                <option value="global">GIF：全局调色板</option>
+                                <option value="perFrame">GIF：逐帧调色板</option>
+                            </select>
+                            <select
+                                value={config.gif.quantizer}
+                                onChange={(e) => handleGifOptionsChange({ ...config.gif, quantizer: e.target.value as GifOptions['quantizer'] })}
+                                className="bg-white border border-gray-300 rounded-lg px-2 py-1.5 text-gray-700 outline-none focus:ring-2 focus:ring-yellow-500"
+                                title="调色板生成算法"
+                            >
+                                <option value="medianCut">中位切分</option>
+                                <option value="octree">八叉树</option>
+                            </select>
+                            <select
+                                value={config.gif.dither}
+                                onChange={(e) => handleGifOptionsChange({ ...config.gif, dither: e.target.value as GifOptions['dither'] })}
+                                className="bg-white border border-gray-300 rounded-lg px-2 py-1.5 text-gray-700 outline-none focus:ring-2 focus:ring-yellow-500"
+                                title="抖动：减少渐变色带，但文件会变大"
+                            >
+                                <option value="none">不抖动</option>
+                                <option value="floydSteinberg">误差扩散抖动</option>
+                                <option value="ordered">有序抖动</option>
+                            </select>
+                        </div>
+                        <div className="w-full max-w-2xl mt-2 flex items-center gap-3 text-xs text-gray-600">
+                            <span className="shrink-0" title="不透明度低于此值的像素在 GIF 中变为透明">透明阈值</span>
+                            <input
+                                type="range"
+                                min="1"
+                                max="255"
+                                value={config.gif.alphaThreshold}
+                                onChange={(e) => setConfig({ ...config, gif: { ...config.gif, alphaThreshold: parseInt(e.target.value) } })}
+                                onPointerUp={(e) => handleGifOptionsChange({ ...config.gif, alphaThreshold: parseInt((e.target as HTMLInputElement).value) })}
+                                onKeyUp={(e) => handleGifOptionsChange({ ...config.gif, alphaThreshold: parseInt((e.target as HTMLInputElement).value) })}
+                                className="flex-1 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-yellow-500"
+                            />
+                            <span className="w-8 font-mono text-right">{config.gif.alphaThreshold}</span>
+                            <label className="flex items-center gap-1 shrink-0 cursor-pointer" title="半透明边缘与此颜色混合，适合已知的背景色">
+                                <input
+                                    type="checkbox"
+                                    checked={config.gif.matte !== null}
+                                    onChange={(e) => handleGifOptionsChange({ ...config.gif, matte: e.target.checked ? '#ffffff' : null })}
+                                    className="accent-yellow-500"
+                                />
+                                边缘杂边
+                            </label>
+                            <input
+                                type="color"
+                                value={config.gif.matte || '#ffffff'}
+                                disabled={config.gif.matte === null}
+                                onChange={(e) => handleGifOptionsChange({ ...config.gif, matte: e.target.value })}
+                                className="w-7 h-6 rounded border border-gray-300 disabled:opacity-40"
+                            />
+                        </div>
+
+                        {/* Sprite Sheet Options */}
+                        <div className="w-full max-w-2xl mt-3 grid grid-cols-2 sm:grid-cols-4 gap-2 text-xs">
+                            <select
+                                value={config.spriteSheet.layout}
+                                onChange={(e) => handleSpriteSheetOptionsChange({ ...config.spriteSheet, layout: e.target.value as SpriteSheetExportOptions['layout'] })}
+                                className="bg-white border border-gray-300 rounded-lg px-2 py-1.5 text-gray-700 outline-none focus:ring-2 focus:ring-yellow-500"
+                                title="图集布局"
+                            >
+                                <option value="grid">网格</option>
+                                <option value="row">单行</option>
+                                <option value="packed">紧凑（裁剪透明边）</option>
+                            </select>
+                            <select
+                                value={config.spriteSheet.format}
+                                onChange={(e) => handleSpriteSheetOptionsChange({ ...config.spriteSheet, format: e.target.value as SpriteSheetExportOptions['format'] })}
+                                className="bg-white border border-gray-300 rounded-lg px-2 py-1.5 text-gray-700 outline-none focus:ring-2 focus:ring-yellow-500"
+                                title="JSON 格式"
+                            >
+                                <option value="hash">JSON Hash (Phaser)</option>
+                                <option value="array">JSON Array</option>
+                                <option value="aseprite">Aseprite JSON</option>
+                            </select>
+                            {([['padding', '间距'], ['extrude', '边缘扩展']] as const).map(([key, label]) => (
+                                <label key={key} className="flex items-center gap-1.5 bg-white border border-gray-300 rounded-lg px-2 py-1.5 text-gray-600">
+                                    {label}
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        max={16}
+                                        value={config.spriteSheet[key]}
+                                        onChange={(e) => handleSpriteSheetOptionsChange({ ...config.spriteSheet, [key]: Math.max(0, parseInt(e.target.value) || 0) })}
+                                        className="w-full min-w-0 outline-none text-gray-800 font-mono"
+                                    />
+                                    px
+                                </label>
+                            ))}
                         </div>
                     </div>
                     )}
@@ -0,0 +1,196 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ListPlus, Pause, Play, Square, Trash2, FolderOpen, Download, Loader2, Users } from 'lucide-react';
+import { BatchJob, BatchJobInput, BatchJobStatus, BatchReference, UserConfig } from '../types';
+import { createBatchQueue, createBatchZip } from '../services/batchQueue';
+import { blobToDataUrl } from '../services/historyStore';
+
+interface BatchQueuePanelProps {
+  reference: BatchReference | null; // Current character image
+  config: UserConfig; // Settings every new job is snapshotted from
+  onOpenJob: (job: BatchJob) => void;
+}
+
+const STATUS_LABELS: Record<BatchJobStatus, string> = {
+  queued: '排队中',
+  running: '生成中',
+  paused: '已暂停',
+  processing: '处理中',
+  done: '完成',
+  failed: '失败',
+  cancelled: '已取消',
+};
+
+const STATUS_COLORS: Record<BatchJobStatus, string> = {
+  queued: 'text-gray-500 bg-gray-100',
+  running: 'text-yellow-700 bg-yellow-100',
+  paused: 'text-blue-700 bg-blue-100',
+  processing: 'text-yellow-700 bg-yellow-100',
+  done: 'text-emerald-700 bg-emerald-100',
+  failed: 'text-red-700 bg-red-100',
+  cancelled: 'text-gray-400 bg-gray-100',
+};
+
+const readReference = async (file: File): Promise<BatchReference> => {
+  const dataUrl = await blobToDataUrl(file);
+  const bitmap = await createImageBitmap(file);
+  const reference = { dataUrl, mimeType: file.type, name: file.name, width: bitmap.width, height: bitmap.height };
+  bitmap.close();
+  return reference;
+};
+
+/**
+ * Queue of generation jobs for building sticker packs: many prompts for one character,
+ * or one prompt for many characters.
+ */
+const BatchQueuePanel: React.FC<BatchQueuePanelProps> = ({ reference, config, onOpenJob }) => {
+  const queueRef = useRef(createBatchQueue());
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const [prompts, setPrompts] = useState('');
+  const [exporting, setExporting] = useState(false);
+  const characterInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => queueRef.current.subscribe(setJobs), []);
+
+  const promptLines = prompts.split('\n').map(line => line.trim()).filter(Boolean);
+
+  const handleAddPrompts = () => {
+    if (!reference) return;
+    const lines = promptLines.length > 0 ? promptLines : [config.prompt.trim()].filter(Boolean);
+    queueRef.current.enqueue(lines.map(prompt => ({
+      name: prompt,
+      reference,
+      config: { ...config, prompt },
+    })));
+    setPrompts('');
+  };
+
+  const handleAddCharacters = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    const prompt = config.prompt.trim();
+    if (files.length === 0 || !prompt) return;
+
+    const inputs: BatchJobInput[] = [];
+    for (const file of files) {
+      inputs.push({ name: `${file.name} · ${prompt}`, reference: await readReference(file), config });
+    }
+    queueRef.current.enqueue(inputs);
+  };
+
+  const doneJobs = jobs.filter(job => job.status === 'done');
+
+  const handleExportAll = async () => {
+    setExporting(true);
+    try {
+      const blob = await createBatchZip(jobs.filter(job => job.status !== 'cancelled'));
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `toonmotion-pack-${Date.now()}.zip`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (e) {
+      console.error("Batch export error:", e);
+    }
+    setExporting(false);
+  };
+
+  const queue = queueRef.current;
+
+  return (
+    <section className="bg-white rounded-2xl p-1 border border-gray-200 shadow-sm">
+      <div className="p-5 rounded-xl">
+        <h2 className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-4 flex items-center gap-2">
+          <ListPlus className="w-4 h-4" /> 批量队列
+        </h2>
+
+        <textarea
+          value={prompts}
+          onChange={(e) => setPrompts(e.target.value)}
+          placeholder={'每行一个动作，用当前角色批量生成：\n挥手\n跳跃\n睡觉'}
+          className="w-full bg-white border border-gray-300 rounded-xl p-3 text-sm text-gray-900 placeholder-gray-400 focus:ring-2 focus:ring-yellow-500 outline-none resize-none h-20"
+        />
+        <div className="grid grid-cols-2 gap-2 mt-2">
+          <button
+            onClick={handleAddPrompts}
+            disabled={!reference || (promptLines.length === 0 && !config.prompt.trim())}
+            className="flex items-center justify-center gap-1.5 py-2 rounded-lg bg-gray-900 text-white text-xs font-bold hover:bg-gray-800 disabled:opacity-40"
+          >
+            <ListPlus className="w-3.5 h-3.5" /> 加入队列{promptLines.length > 1 ? `（${promptLines.length} 个）` : ''}
+          </button>
+          <button
+            onClick={() => characterInputRef.current?.click()}
+            disabled={!config.prompt.trim()}
+            className="flex items-center justify-center gap-1.5 py-2 rounded-lg border border-gray-300 text-gray-700 text-xs font-bold hover:bg-gray-50 disabled:opacity-40"
+            title="为多张角色图片生成当前提示词的动作"
+          >
+            <Users className="w-3.5 h-3.5" /> 多角色同一动作
+          </button>
+          <input ref={characterInputRef} type="file" accept="image/*" multiple onChange={handleAddCharacters} className="hidden" />
+        </div>
+
+        {jobs.length > 0 && (
+          <ul className="mt-4 space-y-2">
+            {jobs.map(job => (
+              <li key={job.id} className="flex items-center gap-2 p-2 rounded-lg border border-gray-200">
+                <img src={job.reference.dataUrl} alt="" className="w-9 h-9 rounded object-contain bg-gray-50 shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-1.5">
+                    <span className="text-xs font-semibold text-gray-700 truncate" title={job.name}>{job.name}</span>
+                    <span className={`text-[10px] px-1.5 rounded shrink-0 ${STATUS_COLORS[job.status]}`}>{STATUS_LABELS[job.status]}</span>
+                  </div>
+                  <div className="h-1 bg-gray-100 rounded-full mt-1 overflow-hidden">
+                    <div className="h-full bg-yellow-500 transition-all" style={{ width: `${job.progress}%` }} />
+                  </div>
+                  <div className="text-[10px] text-gray-400 mt-0.5 truncate" title={job.error}>
+                    {job.error || `${job.completedSlots}/${job.config.frameCount} 帧${job.failedIndices ? ` · ${job.failedIndices.length} 帧失败` : ''}`}
+                  </div>
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  {(job.status === 'running' || job.status === 'queued') && (
+                    <button onClick={() => queue.pause(job.id)} className="p-1 rounded text-gray-500 hover:text-blue-600" title="暂停">
+                      <Pause className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                  {(job.status === 'paused' || job.status === 'failed') && (
+                    <button onClick={() => queue.resume(job.id)} className="p-1 rounded text-gray-500 hover:text-emerald-600" title={job.status === 'failed' ? '重试' : '继续'}>
+                      <Play className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                  {job.status === 'processing' && <Loader2 className="w-3.5 h-3.5 m-1 text-yellow-500 animate-spin" />}
+                  {job.status === 'done' && (
+                    <button onClick={() => onOpenJob(job)} className="p-1 rounded text-gray-500 hover:text-yellow-600" title="在编辑器中打开">
+                      <FolderOpen className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                  {['queued', 'running', 'paused'].includes(job.status) ? (
+                    <button onClick={() => queue.cancel(job.id)} className="p-1 rounded text-gray-500 hover:text-red-600" title="取消">
+                      <Square className="w-3.5 h-3.5" />
+                    </button>
+                  ) : (
+                    <button onClick={() => queue.remove(job.id)} disabled={job.status === 'processing'} className="p-1 rounded text-gray-500 hover:text-red-600 disabled:opacity-30" title="移除">
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {jobs.length > 0 && (
+          <button
+            onClick={handleExportAll}
+            disabled={doneJobs.length === 0 || exporting}
+            className="w-full mt-3 flex items-center justify-center gap-2 py-2 rounded-lg border border-emerald-200 bg-emerald-50 text-emerald-700 text-xs font-bold hover:bg-emerald-100 disabled:opacity-40"
+          >
+            {exporting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Download className="w-3.5 h-3.5" />}
+            导出全部结果（{doneJobs.length} 个完成，ZIP + manifest）
+          </button>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default BatchQueuePanel;
@@ -0,0 +1,65 @@
+import React, { useMemo } from 'react';
+import { ListOrdered, AlertCircle, AlertTriangle } from 'lucide-react';
+import { UserConfig } from '../types';
+import { parseFrameScript } from '../services/frameScript';
+
+interface FrameScriptEditorProps {
+  config: UserConfig;
+  onChange: (patch: Pick<Partial<UserConfig>, 'scriptEnabled' | 'script'>) => void;
+}
+
+/**
+ * Advanced mode: a keyframe script giving each frame or frame range its own pose.
+ */
+const FrameScriptEditor: React.FC<FrameScriptEditorProps> = ({ config, onChange }) => {
+  const result = useMemo(
+    () => parseFrameScript(config.script, config.frameCount),
+    [config.script, config.frameCount]
+  );
+
+  return (
+    <div>
+      <label className="flex items-center gap-2 text-sm font-medium text-gray-700 cursor-pointer select-none">
+        <input
+          type="checkbox"
+          checked={config.scriptEnabled}
+          onChange={(e) => onChange({ scriptEnabled: e.target.checked })}
+          className="accent-yellow-500"
+        />
+        <ListOrdered className="w-3.5 h-3.5" /> 逐帧脚本（高级）
+      </label>
+
+      {config.scriptEnabled && (
+        <div className="mt-2">
+          <textarea
+            value={config.script}
+            onChange={(e) => onChange({ script: e.target.value })}
+            placeholder={'每行一帧或一段帧，例如：\n1-2: 下蹲蓄力\n3: 起跳\n4-5: 空中, 6: 落地'}
+            spellCheck={false}
+            className="w-full bg-white border border-gray-300 rounded-xl p-3 font-mono text-xs text-gray-900 placeholder-gray-400 focus:ring-2 focus:ring-yellow-500 focus:border-transparent outline-none resize-y h-28"
+          />
+          {result.errors.length > 0 ? (
+            <ul className="mt-1 space-y-0.5">
+              {result.errors.map((error, i) => (
+                <li key={i} className="text-xs text-red-500 flex items-start gap-1">
+                  <AlertCircle className="w-3 h-3 mt-0.5 shrink-0" /> {error}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-xs text-gray-400 mt-1">
+              已描述 {result.poses.filter(Boolean).length}/{config.frameCount} 帧，脚本会覆盖动作预设的姿势。
+            </p>
+          )}
+          {result.warnings.map((warning, i) => (
+            <p key={i} className="text-xs text-amber-600 mt-1 flex items-start gap-1">
+              <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" /> {warning}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FrameScriptEditor;
@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { RefreshCw, Trash2, Copy, Loader2, GripVertical, Minus, Plus, AlertTriangle } from 'lucide-react';
+import { GeneratedFrame, QualityIssue } from '../types';
+
+interface FrameTimelineProps {
+  frames: GeneratedFrame[];
+  activeIndex: number;
+  regeneratingIndex: number | null;
+  canRegenerate: boolean;
+  disabled?: boolean;
+  onSelect: (index: number) => void;
+  onRegenerate: (index: number) => void;
+  onDelete: (index: number) => void;
+  onDuplicate: (index: number) => void;
+  onReorder: (from: number, to: number) => void;
+  onHoldChange: (index: number, hold: number) => void;
+}
+
+// Upper bound on how many base-fps ticks a single frame can be held
+const MAX_HOLD = 8;
+
+// A frame's colour drift stands out above this ΔE, or well above the sequence median
+const DRIFT_LIMIT = 10;
+const DRIFT_MEDIAN_RATIO = 1.5;
+
+const QUALITY_LABELS: Record<QualityIssue, string> = {
+  cropped: '角色被裁切',
+  multiple: '出现多余的角色或杂物',
+  area: '大小与其他帧差异过大',
+  aspect: '轮廓比例与其他帧差异过大',
+  color: '颜色与参考图差异过大',
+};
+
+const driftOutliers = (frames: GeneratedFrame[]): Set<number> => {
+  const drifts = frames.map(f => f.colorDrift).filter((d): d is number => d !== undefined).sort((a, b) => a - b);
+  if (drifts.length === 0) return new Set();
+  const median = drifts[drifts.length >> 1];
+  const limit = Math.min(DRIFT_LIMIT, Math.max(2, median * DRIFT_MEDIAN_RATIO));
+  return new Set(frames.flatMap((f, i) => (f.colorDrift !== undefined && f.colorDrift > limit ? [i] : [])));
+};
+
+/**
+ * Editable strip of frames. Supports drag-to-reorder, per-frame actions and hold counts.
+ */
+const FrameTimeline: React.FC<FrameTimelineProps> = ({
+  frames,
+  activeIndex,
+  regeneratingIndex,
+  canRegenerate,
+  disabled = false,
+  onSelect,
+  onRegenerate,
+  onDelete,
+  onDuplicate,
+  onReorder,
+  onHoldChange,
+}) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const locked = disabled || regeneratingIndex !== null;
+  const drifting = driftOutliers(frames);
+
+  const handleDrop = (e: React.DragEvent, index: number) => {
+    e.preventDefault();
+    if (dragIndex !== null && dragIndex !== index) {
+      onReorder(dragIndex, index);
+    }
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <div className="w-full">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">时间轴</span>
+        <span className="text-[10px] text-gray-400">拖动排序 · 悬停编辑</span>
+      </div>
+      <div className="flex gap-2 overflow-x-auto pb-2">
+        {frames.map((frame, i) => (
+          <div
+            key={`${frame.dataUrl}-${i}`}
+            draggable={!locked}
+            onDragStart={() => setDragIndex(i)}
+            onDragOver={(e) => { e.preventDefault(); setDropIndex(i); }}
+            onDragLeave={() => setDropIndex(prev => (prev === i ? null : prev))}
+            onDrop={(e) => handleDrop(e, i)}
+            onDragEnd={() => { setDragIndex(null); setDropIndex(null); }}
+            onClick={() => onSelect(i)}
+            className={`relative shrink-0 w-20 rounded-lg border-2 bg-white cursor-pointer group transition-all ${
+              i === activeIndex ? 'border-yellow-500 shadow-md' : frame.qualityIssues ? 'border-red-300' : 'border-gray-200 hover:border-gray-300'
+            } ${dropIndex === i && dragIndex !== i ? 'ring-2 ring-yellow-300' : ''} ${dragIndex === i ? 'opacity-40' : ''}`}
+          >
+            <img src={frame.dataUrl} alt={`Frame ${i + 1}`} className="w-full h-20 object-contain rounded-md" draggable={false} />
+            <div className="absolute top-1 left-1 flex items-center bg-white/90 rounded px-1 text-[10px] font-mono text-gray-600 border border-gray-200">
+              <GripVertical className="w-2.5 h-2.5 text-gray-400" />{i + 1}
+            </div>
+            {(frame.hold || 1) > 1 && (
+              <div className="absolute top-1 right-1 bg-yellow-100 rounded px-1 text-[10px] font-mono text-yellow-700 border border-yellow-200" title="停留时长">
+                ×{frame.hold}
+              </div>
+            )}
+
+            {frame.qualityIssues && (
+              <div
+                className="absolute top-[2.6rem] right-1 p-0.5 rounded bg-red-50 border border-red-200 text-red-500"
+                title={frame.qualityIssues.map(issue => QUALITY_LABELS[issue]).join('\n')}
+              >
+                <AlertTriangle className="w-2.5 h-2.5" />
+              </div>
+            )}
+
+            {frame.colorDrift !== undefined && (
+              <div
+                className={`absolute top-6 right-1 rounded px-1 text-[9px] font-mono border ${
+                  drifting.has(i) ? 'bg-red-50 text-red-600 border-red-200' : 'bg-white/90 text-gray-400 border-gray-200'
+                }`}
+                title={drifting.has(i) ? '颜色偏离参考图较多' : '与参考图的色差'}
+              >
+                ΔE {frame.colorDrift.toFixed(1)}
+              </div>
+            )}
+
+            {regeneratingIndex === i && (
+              <div className="absolute inset-0 bg-white/80 rounded-md flex items-center justify-center">
+                <Loader2 className="w-5 h-5 text-yellow-500 animate-spin" />
+              </div>
+            )}
+
+            <div className="flex items-center justify-between px-1 pb-1 text-[10px] text-gray-500">
+              <button
+                onClick={(e) => { e.stopPropagation(); onHoldChange(i, (frame.hold || 1) - 1); }}
+                disabled={locked || (frame.hold || 1) <= 1}
+                className="p-0.5 rounded hover:bg-gray-100 disabled:opacity-30"
+                title="缩短停留"
+              >
+                <Minus className="w-2.5 h-2.5" />
+              </button>
+              <span className="font-mono">{frame.hold || 1}拍</span>
+              <button
+                onClick={(e) => { e.stopPropagation(); onHoldChange(i, (frame.hold || 1) + 1); }}
+                disabled={locked || (frame.hold || 1) >= MAX_HOLD}
+                className="p-0.5 rounded hover:bg-gray-100 disabled:opacity-30"
+                title="延长停留"
+              >
+                <Plus className="w-2.5 h-2.5" />
+              </button>
+            </div>
+
+            {!locked && (
+              <div className="absolute top-[3.75rem] inset-x-1 flex justify-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                {canRegenerate && (
+                  <button
+                    onClick={(e) => { e.stopPropagation(); onRegenerate(i); }}
+                    className="p-1 rounded bg-white border border-gray-200 text-gray-600 hover:text-yellow-600 shadow-sm"
+                    title="重新生成此帧"
+                  >
+                    <RefreshCw className="w-3 h-3" />
+                  </button>
+                )}
+                <button
+                  onClick={(e) => { e.stopPropagation(); onDuplicate(i); }}
+                  className="p-1 rounded bg-white border border-gray-200 text-gray-600 hover:text-blue-600 shadow-sm"
+                  title="复制此帧"
+                >
+                  <Copy className="w-3 h-3" />
+                </button>
+                {frames.length > 1 && (
+                  <button
+                    onClick={(e) => { e.stopPropagation(); onDelete(i); }}
+                    className="p-1 rounded bg-white border border-gray-200 text-gray-600 hover:text-red-600 shadow-sm"
+                    title="删除此帧"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default FrameTimeline;
@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from 'react';
+import { X, Copy, Trash2, FolderOpen, Loader2, History, AlertCircle } from 'lucide-react';
+import { HistorySummary } from '../types';
+import { deleteSession, duplicateSession, listSessions, pruneHistory } from '../services/historyStore';
+
+interface HistoryGalleryProps {
+  open: boolean;
+  error?: string | null; // Last save failure, shown above the list
+  onClose: () => void;
+  onOpen: (id: string) => void;
+}
+
+// Sessions kept by the manual clean-up button
+const CLEANUP_KEEP = 10;
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+/**
+ * Modal list of saved sessions with reopen, duplicate and delete actions.
+ */
+const HistoryGallery: React.FC<HistoryGalleryProps> = ({ open, error, onClose, onOpen }) => {
+  const [sessions, setSessions] = useState<HistorySummary[] | null>(null);
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  const [usage, setUsage] = useState<{ usage: number; quota: number } | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const refresh = async () => {
+    try {
+      const list = await listSessions();
+      setSessions(list);
+      setLoadError(null);
+      if (navigator.storage?.estimate) {
+        const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+        setUsage({ usage, quota });
+      }
+    } catch (e: any) {
+      setSessions([]);
+      setLoadError(e.message || "无法读取历史记录");
+    }
+  };
+
+  useEffect(() => {
+    if (open) refresh();
+  }, [open]);
+
+  // Thumbnail URLs live as long as the list they were made for
+  useEffect(() => {
+    const urls: Record<string, string> = {};
+    sessions?.forEach(s => {
+      if (s.thumbnail) urls[s.id] = URL.createObjectURL(s.thumbnail);
+    });
+    setThumbnails(urls);
+    return () => Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+  }, [sessions]);
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (e: any) {
+      setLoadError(e.message || "操作失败");
+    }
+    await refresh();
+    setBusy(false);
+  };
+
+  if (!open) return null;
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/30 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-3xl max-h-[80vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-5 py-4 border-b border-gray-100">
+          <h2 className="font-bold text-gray-800 flex items-center gap-2">
+            <History className="w-4 h-4" /> 历史记录
+          </h2>
+          <button onClick={onClose} className="p-1 rounded-lg text-gray-400 hover:text-gray-700 hover:bg-gray-100">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {(error || loadError) && (
+          <div className="mx-5 mt-4 p-3 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-700 flex items-center gap-2">
+            <AlertCircle className="w-4 h-4 shrink-0" /> {loadError || error}
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto p-5">
+          {!sessions ? (
+            <div className="flex justify-center py-10"><Loader2 className="w-6 h-6 text-yellow-500 animate-spin" /></div>
+          ) : sessions.length === 0 ? (
+            <p className="text-center text-sm text-gray-400 py-10">还没有保存的记录。每次生成或导入完成后会自动保存。</p>
+          ) : (
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+              {sessions.map(s => (
+                <div key={s.id} className="border border-gray-200 rounded-xl overflow-hidden bg-gray-50 group">
+                  <div className="h-28 bg-white flex items-center justify-center">
+                    {thumbnails[s.id] && <img src={thumbnails[s.id]} alt={s.name} className="max-h-full object-contain" />}
+                  </div>
+                  <div className="p-2">
+                    <div className="text-xs font-semibold text-gray-700 truncate" title={s.name}>{s.name}</div>
+                    <div className="text-[10px] text-gray-400">
+                      {new Date(s.updatedAt).toLocaleString()} · {s.frameCount} 帧 · {formatSize(s.size)}
+                    </div>
+                    <div className="flex gap-1 mt-2">
+                      <button
+                        onClick={() => onOpen(s.id)}
+                        disabled={busy}
+                        className="flex-1 flex items-center justify-center gap-1 py-1 rounded-lg bg-yellow-400 text-white text-[11px] font-bold hover:bg-yellow-500 disabled:opacity-50"
+                        title="打开并重新导出"
+                      >
+                        <FolderOpen className="w-3 h-3" /> 打开
+                      </button>
+                      <button
+                        onClick={() => runAction(() => duplicateSession(s.id))}
+                        disabled={busy}
+                        className="p-1 rounded-lg bg-white border border-gray-200 text-gray-500 hover:text-blue-600 disabled:opacity-50"
+                        title="复制"
+                      >
+                        <Copy className="w-3.5 h-3.5" />
+                      </button>
+                      <button
+                        onClick={() => runAction(() => deleteSession(s.id))}
+                        disabled={busy}
+                        className="p-1 rounded-lg bg-white border border-gray-200 text-gray-500 hover:text-red-600 disabled:opacity-50"
+                        title="删除"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between px-5 py-3 border-t border-gray-100 text-[11px] text-gray-400">
+          <span>
+            {usage && usage.quota > 0
+              ? `已用存储 ${formatSize(usage.usage)} / ${formatSize(usage.quota)}`
+              : '存储用量未知'}
+          </span>
+          <button
+            onClick={() => runAction(() => pruneHistory(CLEANUP_KEEP))}
+            disabled={busy || !sessions || sessions.length <= CLEANUP_KEEP}
+            className="px-2 py-1 rounded-lg border border-gray-200 text-gray-500 hover:text-red-600 hover:border-red-200 disabled:opacity-40"
+          >
+            仅保留最近 {CLEANUP_KEEP} 条
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryGallery;
@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { Sparkles, Loader2 } from 'lucide-react';
+import { GeneratedFrame, InterpolationOptions } from '../types';
+import { DEFAULT_INTERPOLATION } from '../services/interpolation';
+
+interface InterpolationPanelProps {
+  frames: GeneratedFrame[];
+  fps: number;
+  busy: boolean;
+  onApply: (options: InterpolationOptions) => void;
+}
+
+// Rate choices: multipliers first, then absolute frame rates
+const RATE_OPTIONS: { label: string; factor: number; targetFps: number }[] = [
+  { label: '2×', factor: 2, targetFps: 0 },
+  { label: '3×', factor: 3, targetFps: 0 },
+  { label: '12 FPS', factor: 1, targetFps: 12 },
+  { label: '15 FPS', factor: 1, targetFps: 15 },
+  { label: '24 FPS', factor: 1, targetFps: 24 },
+  { label: '30 FPS', factor: 1, targetFps: 30 },
+];
+
+/**
+ * Controls for adding in-between frames locally, without extra model calls.
+ */
+const InterpolationPanel: React.FC<InterpolationPanelProps> = ({ frames, fps, busy, onApply }) => {
+  const [options, setOptions] = useState<InterpolationOptions>(DEFAULT_INTERPOLATION);
+
+  const outFps = options.targetFps > 0 ? options.targetFps : fps * options.factor;
+  const ticks = frames.reduce((sum, f) => sum + (f.hold || 1), 0);
+  const estimate = Math.round((ticks * outFps) / fps);
+  const rateIndex = RATE_OPTIONS.findIndex(r => r.factor === options.factor && r.targetFps === options.targetFps);
+
+  return (
+    <div className="w-full mb-4 p-3 bg-white border border-gray-200 rounded-xl">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs font-semibold text-gray-600 flex items-center gap-1">
+          <Sparkles className="w-3.5 h-3.5 text-yellow-500" /> 本地补间
+        </span>
+        <select
+          value={options.method}
+          onChange={(e) => setOptions({ ...options, method: e.target.value as InterpolationOptions['method'] })}
+          className="bg-white border border-gray-300 rounded-md px-2 py-1 text-xs text-gray-700 outline-none"
+        >
+          <option value="crossfade">透明度感知淡入淡出</option>
+          <option value="motion">块匹配运动补间</option>
+        </select>
+        <select
+          value={rateIndex}
+          onChange={(e) => {
+            const { factor, targetFps } = RATE_OPTIONS[parseInt(e.target.value)];
+            setOptions({ ...options, factor, targetFps });
+          }}
+          className="bg-white border border-gray-300 rounded-md px-2 py-1 text-xs text-gray-700 outline-none"
+        >
+          {RATE_OPTIONS.map((r, i) => (
+            <option key={r.label} value={i} disabled={(r.targetFps || fps * r.factor) <= fps}>{r.label}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => onApply(options)}
+          disabled={busy || frames.length < 2 || outFps <= fps}
+          className="ml-auto px-3 py-1.5 rounded-md bg-yellow-400 text-white text-xs font-bold hover:bg-yellow-500 flex items-center gap-1 disabled:opacity-40"
+        >
+          {busy && <Loader2 className="w-3 h-3 animate-spin" />} 生成补间帧
+        </button>
+      </div>
+      <p className="text-[11px] text-gray-400 mt-2">
+        {outFps > fps
+          ? `${frames.length} 帧 @ ${fps} FPS → 约 ${estimate} 帧 @ ${outFps} FPS，时长不变，不消耗 API 调用。`
+          : `目标帧率需高于当前的 ${fps} FPS。`}
+      </p>
+    </div>
+  );
+};
+
+export default InterpolationPanel;
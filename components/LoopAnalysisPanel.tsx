@@ -0,0 +1,127 @@
+import React, { useMemo } from 'react';
+import { Repeat, Scissors, ArrowLeftRight, Wand2, Loader2, CheckCircle2, AlertTriangle } from 'lucide-react';
+import { GeneratedFrame, LoopStep, TimingOptions } from '../types';
+import { analyzeLoop } from '../services/loopAnalysis';
+
+interface LoopAnalysisPanelProps {
+  frames: GeneratedFrame[];
+  timing: TimingOptions;
+  busy: boolean;
+  bridging: boolean;
+  canBridge: boolean; // A reference image and prompt are needed to generate
+  onTrim: (start: number, end: number) => void;
+  onPingPong: () => void;
+  onBridge: () => void;
+}
+
+const ISSUE_LABELS = { pop: '跳变', duplicate: '重复' };
+
+const barColor = (step: LoopStep) =>
+  step.issue === 'pop' ? 'bg-red-400' : step.issue === 'duplicate' ? 'bg-amber-400' : 'bg-emerald-400';
+
+/**
+ * Shows how smoothly each frame leads into the next, including the jump back to the start,
+ * and offers fixes for a loop that does not close.
+ */
+const LoopAnalysisPanel: React.FC<LoopAnalysisPanelProps> = ({
+  frames,
+  timing,
+  busy,
+  bridging,
+  canBridge,
+  onTrim,
+  onPingPong,
+  onBridge,
+}) => {
+  const analysis = useMemo(() => analyzeLoop(frames, timing), [frames, timing]);
+  const { steps, closing, typicalStep, seamless, bestTrim } = analysis;
+
+  if (frames.length < 2) return null;
+
+  const all = closing ? [...steps, closing] : steps;
+  const scale = Math.max(0.05, ...all.map(s => s.score));
+  const issues = all.filter(s => s.issue);
+
+  return (
+    <div className="w-full mb-4 p-3 bg-white border border-gray-200 rounded-xl">
+      <div className="flex items-center gap-2 mb-2">
+        <span className="text-xs font-semibold text-gray-600 flex items-center gap-1">
+          <Repeat className="w-3.5 h-3.5 text-yellow-500" /> 循环检查
+        </span>
+        {seamless ? (
+          <span className="text-[11px] text-emerald-600 flex items-center gap-1"><CheckCircle2 className="w-3 h-3" /> 首尾衔接自然</span>
+        ) : (
+          <span className="text-[11px] text-amber-600 flex items-center gap-1"><AlertTriangle className="w-3 h-3" /> 循环不够顺滑</span>
+        )}
+        <span className="ml-auto text-[10px] text-gray-400 font-mono">典型差异 {(typicalStep * 100).toFixed(1)}%</span>
+      </div>
+
+      <div className="flex items-end gap-1 h-10">
+        {all.map(step => (
+          <div
+            key={`${step.from}-${step.to}`}
+            className="flex-1 flex flex-col items-center justify-end h-full"
+            title={`第 ${step.from + 1} → ${step.to + 1} 帧：差异 ${(step.score * 100).toFixed(1)}%${step.issue ? `（${ISSUE_LABELS[step.issue]}）` : ''}`}
+          >
+            <div
+              className={`w-full rounded-sm ${barColor(step)} ${step === closing ? 'ring-1 ring-offset-1 ring-gray-400' : ''}`}
+              style={{ height: `${Math.max(6, (step.score / scale) * 100)}%` }}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-1 mt-0.5">
+        {all.map(step => (
+          <span key={`${step.from}-${step.to}`} className="flex-1 text-center text-[9px] text-gray-400 font-mono">
+            {step === closing ? `${step.from + 1}↺1` : `${step.from + 1}→${step.to + 1}`}
+          </span>
+        ))}
+      </div>
+
+      {issues.length > 0 && (
+        <ul className="mt-2 text-[11px] text-gray-500 space-y-0.5">
+          {issues.map(step => (
+            <li key={`${step.from}-${step.to}`}>
+              <span className={step.issue === 'pop' ? 'text-red-500' : 'text-amber-600'}>{ISSUE_LABELS[step.issue!]}</span>
+              ：第 {step.from + 1} → {step.to + 1} 帧
+              {step === closing ? '（循环首尾）' : ''}
+              {step.issue === 'duplicate' ? '，画面几乎相同，播放时会停顿' : '，动作变化过大，播放时会跳一下'}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {!seamless && closing && (
+        <div className="flex flex-wrap gap-2 mt-3">
+          {bestTrim && (
+            <button
+              onClick={() => onTrim(bestTrim.start, bestTrim.end)}
+              disabled={busy}
+              className="flex items-center gap-1 px-2 py-1 rounded-md border border-gray-200 text-[11px] font-medium text-gray-600 hover:bg-gray-50 disabled:opacity-40"
+              title={`首尾差异 ${(bestTrim.score * 100).toFixed(1)}%`}
+            >
+              <Scissors className="w-3 h-3" /> 裁剪为第 {bestTrim.start + 1}-{bestTrim.end + 1} 帧
+            </button>
+          )}
+          <button
+            onClick={onPingPong}
+            disabled={busy}
+            className="flex items-center gap-1 px-2 py-1 rounded-md border border-gray-200 text-[11px] font-medium text-gray-600 hover:bg-gray-50 disabled:opacity-40"
+          >
+            <ArrowLeftRight className="w-3 h-3" /> 改为往返播放
+          </button>
+          <button
+            onClick={onBridge}
+            disabled={busy || !canBridge}
+            className="flex items-center gap-1 px-2 py-1 rounded-md border border-yellow-300 bg-yellow-50 text-[11px] font-medium text-yellow-700 hover:bg-yellow-100 disabled:opacity-40"
+            title="参考最后一帧和第一帧，生成一帧过渡画面追加到末尾"
+          >
+            {bridging ? <Loader2 className="w-3 h-3 animate-spin" /> : <Wand2 className="w-3 h-3" />} 生成衔接帧
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LoopAnalysisPanel;
@@ -0,0 +1,261 @@
+import React, { useRef, useState } from 'react';
+import { Footprints, Pencil, Upload, Download, Trash2, Save, X } from 'lucide-react';
+import { MotionPreset, UserConfig } from '../types';
+import {
+  BUILT_IN_MOTION_PRESETS,
+  createMotionPresetFile,
+  createPresetId,
+  loadCustomPresets,
+  MOTION_PRESET_EXTENSION,
+  parseMotionPresetFile,
+  poseForFrame,
+  saveCustomPresets,
+} from '../services/motionPresets';
+
+interface MotionPresetPanelProps {
+  config: UserConfig;
+  onApply: (preset: MotionPreset) => void;
+  onClearPoses: () => void;
+}
+
+const MAX_FRAMES = 24;
+
+interface Draft {
+  id?: string; // Set when editing one of the user's presets
+  name: string;
+  action: string;
+  poses: string;
+  frameCount: number;
+  fps: number;
+}
+
+/**
+ * Picks a motion preset (per-frame poses plus recommended frames and timing)
+ * and lets the user write, save and share their own.
+ */
+const MotionPresetPanel: React.FC<MotionPresetPanelProps> = ({ config, onApply, onClearPoses }) => {
+  const [customPresets, setCustomPresets] = useState<MotionPreset[]>(loadCustomPresets);
+  const [selectedId, setSelectedId] = useState('');
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const presets = [...BUILT_IN_MOTION_PRESETS, ...customPresets];
+  const selected = presets.find(p => p.id === selectedId);
+
+  const updateCustomPresets = (next: MotionPreset[]) => {
+    try {
+      saveCustomPresets(next);
+      setCustomPresets(next);
+      setError(null);
+      return true;
+    } catch (e: any) {
+      setError(e.message || "无法保存预设");
+      return false;
+    }
+  };
+
+  const handleSelect = (id: string) => {
+    setSelectedId(id);
+    setDraft(null);
+    const preset = presets.find(p => p.id === id);
+    if (preset) onApply(preset);
+  };
+
+  const handleEdit = () => {
+    const source = selected;
+    setDraft(source
+      ? {
+          id: source.builtIn ? undefined : source.id,
+          name: source.builtIn ? `${source.name}（自定义）` : source.name,
+          action: source.action,
+          poses: source.poses.join('\n'),
+          frameCount: source.frameCount,
+          fps: source.fps,
+        }
+      : {
+          name: '',
+          action: config.prompt,
+          poses: config.poses.join('\n'),
+          frameCount: config.frameCount,
+          fps: config.fps,
+        });
+  };
+
+  const draftPoses = draft ? draft.poses.split('\n').map(line => line.trim()).filter(Boolean) : [];
+
+  const handleSave = () => {
+    if (!draft || !draft.name.trim() || draftPoses.length === 0) return;
+    const preset: MotionPreset = {
+      id: draft.id || createPresetId(),
+      name: draft.name.trim(),
+      action: draft.action.trim(),
+      poses: draftPoses,
+      frameCount: draft.frameCount,
+      fps: draft.fps,
+      timing: (draft.id && customPresets.find(p => p.id === draft.id)?.timing) || selected?.timing || config.timing,
+    };
+    const next = draft.id
+      ? customPresets.map(p => (p.id === preset.id ? preset : p))
+      : [...customPresets, preset];
+    if (!updateCustomPresets(next)) return;
+    setSelectedId(preset.id);
+    setDraft(null);
+    onApply(preset);
+  };
+
+  const handleDelete = () => {
+    if (!selected || selected.builtIn) return;
+    updateCustomPresets(customPresets.filter(p => p.id !== selected.id));
+    setSelectedId('');
+    setDraft(null);
+  };
+
+  const handleExport = () => {
+    if (!selected) return;
+    const url = URL.createObjectURL(createMotionPresetFile(selected));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${selected.name}${MOTION_PRESET_EXTENSION}`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const preset = parseMotionPresetFile(await file.text());
+      if (updateCustomPresets([...customPresets, preset])) handleSelect(preset.id);
+    } catch (err: any) {
+      setError(err.message || "预设文件无效");
+    }
+  };
+
+  const inputClass = "w-full bg-white border border-gray-300 rounded-lg px-2 py-1.5 text-xs text-gray-700 focus:ring-2 focus:ring-yellow-500 outline-none";
+  const iconButton = "p-2 rounded-lg border border-gray-300 text-gray-500 hover:bg-gray-50 disabled:opacity-40";
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2 flex items-center gap-1">
+        <Footprints className="w-3.5 h-3.5" /> 动作预设
+      </label>
+      <div className="flex gap-2">
+        <select
+          value={selectedId}
+          onChange={(e) => handleSelect(e.target.value)}
+          className="flex-1 min-w-0 bg-white border border-gray-300 rounded-lg px-3 py-2 text-sm text-gray-700 focus:ring-2 focus:ring-yellow-500 outline-none"
+        >
+          <option value="">不使用预设</option>
+          <optgroup label="内置">
+            {BUILT_IN_MOTION_PRESETS.map(p => <option key={p.id} value={p.id}>{p.name} · {p.frameCount} 帧</option>)}
+          </optgroup>
+          {customPresets.length > 0 && (
+            <optgroup label="我的预设">
+              {customPresets.map(p => <option key={p.id} value={p.id}>{p.name} · {p.frameCount} 帧</option>)}
+            </optgroup>
+          )}
+        </select>
+        <button onClick={handleEdit} className={iconButton} title={selected ? '编辑 / 另存为我的预设' : '用当前设置新建预设'}>
+          <Pencil className="w-4 h-4" />
+        </button>
+        <button onClick={() => importInputRef.current?.click()} className={iconButton} title="导入预设文件">
+          <Upload className="w-4 h-4" />
+        </button>
+        <button onClick={handleExport} disabled={!selected} className={iconButton} title="导出预设以分享">
+          <Download className="w-4 h-4" />
+        </button>
+        <button onClick={handleDelete} disabled={!selected || selected.builtIn} className={`${iconButton} hover:text-red-600`} title="删除预设">
+          <Trash2 className="w-4 h-4" />
+        </button>
+        <input ref={importInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+      </div>
+
+      {error && <p className="text-xs text-red-500 mt-2">{error}</p>}
+
+      {draft && (
+        <div className="mt-3 p-3 rounded-xl border border-yellow-200 bg-yellow-50/50 space-y-2">
+          <input
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="预设名称"
+            className={inputClass}
+          />
+          <input
+            value={draft.action}
+            onChange={(e) => setDraft({ ...draft, action: e.target.value })}
+            placeholder="整体动作，例如：waving hello"
+            className={inputClass}
+          />
+          <textarea
+            value={draft.poses}
+            onChange={(e) => setDraft({ ...draft, poses: e.target.value })}
+            placeholder={'每行一个姿势，按顺序对应各帧：\n下蹲蓄力\n起跳\n最高点'}
+            className={`${inputClass} resize-none h-28`}
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-[11px] text-gray-500">
+              推荐帧数
+              <input
+                type="number"
+                min={1}
+                max={MAX_FRAMES}
+                value={draft.frameCount}
+                onChange={(e) => setDraft({ ...draft, frameCount: Math.min(MAX_FRAMES, Math.max(1, parseInt(e.target.value) || 1)) })}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+            <label className="text-[11px] text-gray-500">
+              推荐 FPS
+              <input
+                type="number"
+                min={1}
+                max={30}
+                value={draft.fps}
+                onChange={(e) => setDraft({ ...draft, fps: Math.min(30, Math.max(1, parseInt(e.target.value) || 1)) })}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+          </div>
+          <p className="text-[11px] text-gray-400">
+            {draftPoses.length} 个姿势{draftPoses.length > 0 && draftPoses.length < draft.frameCount ? '，将平均分配到各帧' : ''}；播放方式沿用当前设置。
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              disabled={!draft.name.trim() || draftPoses.length === 0}
+              className="flex-1 flex items-center justify-center gap-1 py-1.5 rounded-lg bg-yellow-400 text-white text-xs font-bold hover:bg-yellow-500 disabled:opacity-40"
+            >
+              <Save className="w-3.5 h-3.5" /> 保存并应用
+            </button>
+            <button onClick={() => setDraft(null)} className="px-3 py-1.5 rounded-lg border border-gray-300 text-gray-500 text-xs hover:bg-white">
+              取消
+            </button>
+          </div>
+        </div>
+      )}
+
+      {!draft && config.poses.length > 0 && (
+        <div className="mt-3 p-3 rounded-xl border border-gray-200 bg-gray-50">
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-[11px] font-semibold text-gray-500">逐帧姿势</span>
+            <button
+              onClick={() => { setSelectedId(''); onClearPoses(); }}
+              className="text-[11px] text-gray-400 hover:text-red-600 flex items-center gap-0.5"
+            >
+              <X className="w-3 h-3" /> 清除
+            </button>
+          </div>
+          <ol className="text-[11px] text-gray-500 space-y-0.5 max-h-32 overflow-y-auto">
+            {Array.from({ length: config.frameCount }, (_, i) => (
+              <li key={i} className="truncate"><span className="font-mono text-gray-400">{i + 1}.</span> {poseForFrame(config.poses, i, config.frameCount)}</li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MotionPresetPanel;
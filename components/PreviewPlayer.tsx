@@ -0,0 +1,224 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Play, Pause, SkipBack, SkipForward, Ghost, Columns2 } from 'lucide-react';
+import { GeneratedFrame, TimingOptions } from '../types';
+import { buildPlaybackSequence } from '../services/timing';
+
+interface PreviewPlayerProps {
+  frames: GeneratedFrame[];
+  fps: number;
+  timing: TimingOptions;
+  index: number; // Shared with the timeline selection
+  onIndexChange: (index: number) => void;
+  referenceUrl?: string | null; // Shown next to the animation when side-by-side is on
+}
+
+type PreviewBackground = 'checker' | 'black' | 'white' | 'custom';
+
+const SPEEDS = [0.25, 0.5, 1, 1.5, 2];
+
+// Previous frame red, next frame green, as in most 2D animation tools
+const ONION_PREVIOUS = '#ef4444';
+const ONION_NEXT = '#22c55e';
+const ONION_OPACITY = 0.35;
+
+const CHECKERBOARD: React.CSSProperties = {
+  backgroundImage: 'conic-gradient(#e5e7eb 25%, #ffffff 0 50%, #e5e7eb 0 75%, #ffffff 0)',
+  backgroundSize: '16px 16px',
+};
+
+const backgroundStyle = (background: PreviewBackground, customColor: string): React.CSSProperties => {
+  switch (background) {
+    case 'black': return { backgroundColor: '#000000' };
+    case 'white': return { backgroundColor: '#ffffff' };
+    case 'custom': return { backgroundColor: customColor };
+    default: return CHECKERBOARD;
+  }
+};
+
+// Fills the frame's opaque pixels with a flat colour by using the frame as a mask
+const onionStyle = (url: string, color: string): React.CSSProperties => {
+  const mask = `url("${url}") center / contain no-repeat`;
+  return { backgroundColor: color, opacity: ONION_OPACITY, mask, WebkitMask: mask };
+};
+
+/**
+ * Animation preview with transport controls, a scrubber, onion skinning,
+ * switchable backgrounds and an optional side-by-side reference.
+ * Plays with the same per-frame durations, direction and loop count as the exports.
+ */
+const PreviewPlayer: React.FC<PreviewPlayerProps> = ({ frames, fps, timing, index, onIndexChange, referenceUrl }) => {
+  const [playing, setPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+  const [onionSkin, setOnionSkin] = useState(false);
+  const [background, setBackground] = useState<PreviewBackground>('checker');
+  const [customColor, setCustomColor] = useState('#8b5cf6');
+  const [showReference, setShowReference] = useState(false);
+  const indexRef = useRef(index);
+  const endedRef = useRef(false);
+  indexRef.current = index;
+
+  const count = frames.length;
+  const current = Math.min(index, count - 1);
+
+  useEffect(() => {
+    if (!playing || count === 0) return;
+
+    const steps = buildPlaybackSequence(frames, fps, timing);
+    // Continue from the frame on screen; start over after a finite loop count ran out
+    let step = endedRef.current ? 0 : Math.max(0, steps.findIndex(s => s.index === indexRef.current));
+    let loops = 0;
+    let timer: number | undefined;
+    endedRef.current = false;
+
+    const advance = () => {
+      onIndexChange(steps[step].index);
+      const duration = steps[step].duration / speed;
+      step++;
+      if (step >= steps.length) {
+        step = 0;
+        loops++;
+        // A finite loop count stops on the last frame, as the exported files do
+        if (timing.loopCount > 0 && loops >= timing.loopCount) {
+          timer = window.setTimeout(() => {
+            endedRef.current = true;
+            setPlaying(false);
+          }, duration);
+          return;
+        }
+      }
+      timer = window.setTimeout(advance, duration);
+    };
+    advance();
+
+    return () => clearTimeout(timer);
+  }, [playing, frames, fps, timing, speed]);
+
+  // Manual navigation pauses; pressing play again continues from the chosen frame
+  const seek = (target: number) => {
+    setPlaying(false);
+    endedRef.current = false;
+    onIndexChange(target);
+  };
+
+  const neighbours = onionSkin && count > 1
+    ? { previous: frames[(current - 1 + count) % count], next: frames[(current + 1) % count] }
+    : null;
+
+  const swatch = (value: PreviewBackground, label: string, style: React.CSSProperties) => (
+    <button
+      key={value}
+      onClick={() => setBackground(value)}
+      title={label}
+      className={`w-5 h-5 rounded border ${background === value ? 'ring-2 ring-yellow-500 border-transparent' : 'border-gray-300'}`}
+      style={style}
+    />
+  );
+
+  const toggleClass = (active: boolean) =>
+    `flex items-center gap-1 px-2 py-1 rounded-md border text-[11px] font-medium transition-colors ${
+      active ? 'bg-yellow-50 border-yellow-300 text-yellow-700' : 'bg-white border-gray-200 text-gray-500 hover:bg-gray-50'
+    }`;
+
+  return (
+    <div className="flex flex-col items-center w-full mb-6">
+      <div className="flex items-start justify-center gap-4 w-full">
+        {showReference && referenceUrl && (
+          <div className="relative rounded-lg shadow-lg overflow-hidden border border-gray-200" style={backgroundStyle(background, customColor)}>
+            <img src={referenceUrl} alt="Reference" className="max-w-full max-h-[500px] object-contain" />
+            <div className="absolute top-3 right-3 bg-white/90 px-2 py-1 rounded border border-gray-200 text-[10px] font-mono text-gray-600 shadow-sm backdrop-blur-sm">
+              参考图
+            </div>
+          </div>
+        )}
+
+        <div className="relative rounded-lg shadow-lg overflow-hidden border border-gray-200 group" style={backgroundStyle(background, customColor)}>
+          {neighbours && (
+            <>
+              <div className="absolute inset-0 pointer-events-none" style={onionStyle(neighbours.previous.dataUrl, ONION_PREVIOUS)} />
+              <div className="absolute inset-0 pointer-events-none" style={onionStyle(neighbours.next.dataUrl, ONION_NEXT)} />
+            </>
+          )}
+          {/* Display at original size or scaled down if too big, but generated frames are actual size */}
+          <img
+            src={frames[current].dataUrl}
+            alt={`Frame ${current}`}
+            className="relative max-w-full max-h-[500px] object-contain"
+          />
+          <div className="absolute top-3 right-3 bg-white/90 px-2 py-1 rounded border border-gray-200 text-[10px] font-mono text-gray-600 shadow-sm backdrop-blur-sm">
+            Preview
+          </div>
+          <div className="absolute bottom-3 left-1/2 -translate-x-1/2 bg-white/90 px-3 py-1 rounded-full border border-gray-200 text-xs font-medium text-gray-700 shadow-sm backdrop-blur-sm">
+            帧 {current + 1} / {count}
+          </div>
+        </div>
+      </div>
+
+      <div className="w-full max-w-xl mt-4 flex items-center gap-2">
+        <button onClick={() => seek((current - 1 + count) % count)} className="p-1.5 rounded-md text-gray-500 hover:bg-gray-100" title="上一帧">
+          <SkipBack className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => setPlaying(p => !p)}
+          className="p-2 rounded-full bg-yellow-400 text-white hover:bg-yellow-500 shadow-sm"
+          title={playing ? '暂停' : '播放'}
+        >
+          {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+        </button>
+        <button onClick={() => seek((current + 1) % count)} className="p-1.5 rounded-md text-gray-500 hover:bg-gray-100" title="下一帧">
+          <SkipForward className="w-4 h-4" />
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={Math.max(0, count - 1)}
+          value={current}
+          onChange={(e) => seek(parseInt(e.target.value))}
+          className="flex-1 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-yellow-500"
+        />
+        <select
+          value={speed}
+          onChange={(e) => setSpeed(parseFloat(e.target.value))}
+          className="bg-white border border-gray-300 rounded-md px-1.5 py-1 text-xs text-gray-700 outline-none"
+          title="预览速度（不影响导出）"
+        >
+          {SPEEDS.map(s => <option key={s} value={s}>{s}×</option>)}
+        </select>
+      </div>
+
+      <div className="w-full max-w-xl mt-2 flex flex-wrap items-center gap-2">
+        <button onClick={() => setOnionSkin(o => !o)} className={toggleClass(onionSkin)} title="红色为上一帧，绿色为下一帧">
+          <Ghost className="w-3.5 h-3.5" /> 洋葱皮
+        </button>
+        {referenceUrl && (
+          <button onClick={() => setShowReference(r => !r)} className={toggleClass(showReference)}>
+            <Columns2 className="w-3.5 h-3.5" /> 对照参考图
+          </button>
+        )}
+        <div className="flex items-center gap-1.5 ml-auto">
+          <span className="text-[11px] text-gray-400">背景</span>
+          {swatch('checker', '棋盘格', CHECKERBOARD)}
+          {swatch('black', '黑色', { backgroundColor: '#000000' })}
+          {swatch('white', '白色', { backgroundColor: '#ffffff' })}
+          <label
+            className={`relative w-5 h-5 rounded border cursor-pointer ${background === 'custom' ? 'ring-2 ring-yellow-500 border-transparent' : 'border-gray-300'}`}
+            style={{ backgroundColor: customColor }}
+            title="自定义颜色"
+          >
+            <input
+              type="color"
+              value={customColor}
+              onChange={(e) => {
+                setCustomColor(e.target.value);
+                setBackground('custom');
+              }}
+              onClick={() => setBackground('custom')}
+              className="absolute inset-0 opacity-0 cursor-pointer"
+            />
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PreviewPlayer;
@@ -0,0 +1,55 @@
+import React from 'react';
+import { CheckCircle2, XCircle, Download } from 'lucide-react';
+import { StickerReport } from '../types';
+import { STICKER_PLATFORMS, StickerPlatform } from '../services/stickerPresets';
+
+interface StickerReportPanelProps {
+  report: StickerReport;
+  url?: string;
+}
+
+/**
+ * Pass/fail summary of the platform sticker export, with what auto-fit had to change.
+ */
+const StickerReportPanel: React.FC<StickerReportPanelProps> = ({ report, url }) => {
+  if (report.platform === 'none') return null;
+
+  const platform = STICKER_PLATFORMS[report.platform as StickerPlatform];
+  const passed = report.after.every(check => check.passed);
+  const extension = report.format === 'apng' ? 'png' : report.format;
+
+  return (
+    <div className={`w-full max-w-2xl mt-3 p-3 rounded-xl border text-xs ${passed ? 'bg-emerald-50 border-emerald-200' : 'bg-red-50 border-red-200'}`}>
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <span className={`font-bold flex items-center gap-1 ${passed ? 'text-emerald-700' : 'text-red-600'}`}>
+          {passed ? <CheckCircle2 className="w-4 h-4" /> : <XCircle className="w-4 h-4" />}
+          {platform.name} 贴纸{passed ? '符合平台规则' : '仍未通过平台规则'}
+        </span>
+        {url && (
+          <a
+            href={url}
+            download={`toonmotion-${report.platform}-${Date.now()}.${extension}`}
+            className="flex items-center gap-1 px-2 py-1 rounded-lg bg-white border border-gray-200 text-gray-700 hover:bg-gray-50 shadow-sm"
+          >
+            <Download className="w-3.5 h-3.5" /> {report.format.toUpperCase()} · {Math.max(1, Math.round(report.size / 1024))} KB
+          </a>
+        )}
+      </div>
+      <ul className="space-y-0.5">
+        {report.after.map(check => (
+          <li key={check.rule} className={check.passed ? 'text-gray-600' : 'text-red-600'}>
+            {check.passed ? '✓' : '✗'} {check.message}
+          </li>
+        ))}
+      </ul>
+      {report.fixes.length > 0 && (
+        <div className="mt-2 pt-2 border-t border-black/5 text-gray-500">
+          <div>原始导出未通过：{report.before.filter(check => !check.passed).map(check => check.message).join('；')}</div>
+          <div>已自动适配：{report.fixes.join('；')}</div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StickerReportPanel;
@@ -0,0 +1,135 @@
+import { ApngEncodeInfo, ApngOptimizationOptions, GeneratedFrame, TimingOptions } from "../types";
+import { createApng, DEFAULT_APNG_OPTIMIZATION } from "./videoProcessor";
+import { buildPlaybackSequence, DEFAULT_TIMING } from "./timing";
+
+// Search ladders for the fit-under-size mode, from best to smallest output
+const COLOR_LADDER = [0, 256, 128, 64, 32, 16];
+const SCALE_LADDER = [1, 0.85, 0.7, 0.55, 0.4];
+const FRAME_STEP_LADDER = [1, 2, 3];
+
+export interface ApngResult {
+  blob: Blob;
+  info: ApngEncodeInfo;
+}
+
+// Limits a caller can place on the fit-under-size search
+export interface ApngSearchConstraints {
+  allowResize?: boolean; // Defaults to true; off when the canvas size is prescribed
+  minFrames?: number; // Frame dropping never goes below this many frames per loop
+}
+
+/**
+ * Resamples every frame buffer by the same factor.
+ */
+const scaleFrames = (frames: GeneratedFrame[], scale: number): GeneratedFrame[] => {
+  return frames.map(frame => {
+    if (!frame.pixelBuffer || !frame.width || !frame.height) return frame;
+
+    const source = document.createElement('canvas');
+    source.width = frame.width;
+    source.height = frame.height;
+    source.getContext('2d')!.putImageData(
+      new ImageData(new Uint8ClampedArray(frame.pixelBuffer.slice(0)), frame.width, frame.height),
+      0,
+      0
+    );
+
+    const width = Math.max(1, Math.round(frame.width * scale));
+    const height = Math.max(1, Math.round(frame.height * scale));
+    const target = document.createElement('canvas');
+    target.width = width;
+    target.height = height;
+    const ctx = target.getContext('2d')!;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(source, 0, 0, width, height);
+
+    return { ...frame, width, height, pixelBuffer: ctx.getImageData(0, 0, width, height).data.buffer };
+  });
+};
+
+/**
+ * Keeps every `step`-th frame. Each kept frame absorbs the holds of the ones dropped after it,
+ * so the loop keeps its length.
+ */
+export const dropFrames = (frames: GeneratedFrame[], step: number): GeneratedFrame[] => {
+  if (step <= 1) return frames;
+
+  const kept: GeneratedFrame[] = [];
+  for (let i = 0; i < frames.length; i += step) {
+    const group = frames.slice(i, i + step);
+    kept.push({ ...frames[i], hold: group.reduce((sum, f) => sum + (f.hold || 1), 0) });
+  }
+  return kept;
+};
+
+const encode = async (
+  frames: GeneratedFrame[],
+  fps: number,
+  timing: TimingOptions,
+  options: ApngOptimizationOptions,
+  colors: number,
+  scale: number,
+  frameStep: number
+): Promise<ApngResult> => {
+  const blob = await createApng(frames, fps, timing, { ...options, colors });
+  return {
+    blob,
+    info: {
+      size: blob.size,
+      colors,
+      scale,
+      frameStep,
+      width: frames[0].width || 0,
+      height: frames[0].height || 0,
+      fits: options.targetSizeKB <= 0 || blob.size <= options.targetSizeKB * 1024,
+    },
+  };
+};
+
+/**
+ * Encodes the APNG with the chosen palette and delta settings.
+ * With a target size set, it trades colours first, then dimensions, then frames until the file fits;
+ * when nothing fits the smallest attempt is returned with `fits: false`.
+ */
+export const optimizeApng = async (
+  frames: GeneratedFrame[],
+  fps: number,
+  timing: TimingOptions = DEFAULT_TIMING,
+  options: ApngOptimizationOptions = DEFAULT_APNG_OPTIMIZATION,
+  constraints: ApngSearchConstraints = {}
+): Promise<ApngResult> => {
+  if (options.targetSizeKB <= 0) {
+    return encode(frames, fps, timing, options, options.colors, 1, 1);
+  }
+
+  // The chosen palette is the best quality the search may use
+  const colors = options.colors === 0 ? COLOR_LADDER : COLOR_LADDER.filter(c => c !== 0 && c <= options.colors);
+  if (colors.length === 0) colors.push(options.colors);
+  const cheapest = colors[colors.length - 1];
+
+  const scales = constraints.allowResize === false ? [1] : SCALE_LADDER;
+  const minFrames = Math.max(2, constraints.minFrames || 0);
+  let smallest: ApngResult | null = null;
+
+  for (const frameStep of FRAME_STEP_LADDER) {
+    const dropped = dropFrames(frames, frameStep);
+    if (frameStep > 1 && buildPlaybackSequence(dropped, fps, timing).length < minFrames) break;
+
+    for (const scale of scales) {
+      const scaled = scale === 1 ? dropped : scaleFrames(dropped, scale);
+
+      // If the smallest palette is still too big, richer palettes at this size will be too
+      const floor = await encode(scaled, fps, timing, options, cheapest, scale, frameStep);
+      if (!smallest || floor.info.size < smallest.info.size) smallest = floor;
+      if (!floor.info.fits) continue;
+
+      for (const c of colors.slice(0, -1)) {
+        const attempt = await encode(scaled, fps, timing, options, c, scale, frameStep);
+        if (attempt.info.fits) return attempt;
+      }
+      return floor;
+    }
+  }
+
+  return smallest!;
+};
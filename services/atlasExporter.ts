@@ -0,0 +1,270 @@
+import { GeneratedFrame, SpriteSheetExportOptions, TimingOptions } from "../types";
+import { computeFrameDurations, DEFAULT_TIMING } from "./timing";
+
+export const DEFAULT_SPRITE_SHEET_EXPORT: SpriteSheetExportOptions = {
+  layout: 'grid',
+  padding: 2,
+  extrude: 0,
+  format: 'hash',
+};
+
+const SHEET_IMAGE_NAME = 'spritesheet.png';
+
+interface Rect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+interface PackedFrame {
+  name: string;
+  canvas: HTMLCanvasElement;
+  frame: Rect; // Position in the sheet, excluding extrusion
+  trimmed: boolean;
+  spriteSourceSize: Rect; // Trimmed region inside the untrimmed frame
+  sourceSize: { w: number; h: number };
+  duration: number;
+}
+
+export interface SpriteSheetResult {
+  image: Blob;
+  atlas: object;
+  width: number;
+  height: number;
+}
+
+const frameName = (index: number) => `frame_${(index + 1).toString().padStart(2, '0')}.png`;
+
+/**
+ * Returns the bounding box of non-transparent pixels, or null for an empty frame.
+ */
+const findOpaqueBounds = (data: Uint8ClampedArray, width: number, height: number): Rect | null => {
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] > 0) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+      }
+    }
+  }
+  return maxX < 0 ? null : { x: minX, y: minY, w: maxX - minX + 1, h: maxY - minY + 1 };
+};
+
+/**
+ * Renders each frame to its own canvas, trimmed to its opaque bounds when requested.
+ */
+const prepareFrames = (frames: GeneratedFrame[], durations: number[], trim: boolean): PackedFrame[] => {
+  const prepared: PackedFrame[] = [];
+
+  frames.forEach((frame, i) => {
+    if (!frame.pixelBuffer || !frame.width || !frame.height) return;
+    const { width, height } = frame;
+    const data = new Uint8ClampedArray(frame.pixelBuffer);
+
+    const full: Rect = { x: 0, y: 0, w: width, h: height };
+    // Keep a 1px frame for fully transparent frames so the timing survives
+    const bounds = trim ? (findOpaqueBounds(data, width, height) || { x: 0, y: 0, w: 1, h: 1 }) : full;
+
+    const source = document.createElement('canvas');
+    source.width = width;
+    source.height = height;
+    source.getContext('2d')?.putImageData(new ImageData(new Uint8ClampedArray(data), width, height), 0, 0);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = bounds.w;
+    canvas.height = bounds.h;
+    canvas.getContext('2d')?.drawImage(source, bounds.x, bounds.y, bounds.w, bounds.h, 0, 0, bounds.w, bounds.h);
+
+    prepared.push({
+      name: frameName(i),
+      canvas,
+      frame: { x: 0, y: 0, w: bounds.w, h: bounds.h },
+      trimmed: bounds.w !== width || bounds.h !== height,
+      spriteSourceSize: bounds,
+      sourceSize: { w: width, h: height },
+      duration: durations[i],
+    });
+  });
+
+  return prepared;
+};
+
+/**
+ * Assigns sheet positions. Each slot reserves extrusion on every side plus padding between slots.
+ */
+const layoutFrames = (frames: PackedFrame[], options: SpriteSheetExportOptions): { width: number; height: number } => {
+  const pad = Math.max(0, options.padding);
+  const ext = Math.max(0, options.extrude);
+  const slotW = (f: PackedFrame) => f.frame.w + ext * 2;
+  const slotH = (f: PackedFrame) => f.frame.h + ext * 2;
+
+  if (options.layout === 'packed') {
+    // Shelf packing: tallest first, rows no wider than a roughly square sheet
+    const area = frames.reduce((sum, f) => sum + (slotW(f) + pad) * (slotH(f) + pad), 0);
+    const maxWidth = Math.max(...frames.map(slotW), Math.ceil(Math.sqrt(area)));
+    const order = [...frames].sort((a, b) => slotH(b) - slotH(a));
+
+    let x = 0, y = 0, shelfHeight = 0, sheetWidth = 0;
+    for (const f of order) {
+      if (x > 0 && x + slotW(f) > maxWidth) {
+        x = 0;
+        y += shelfHeight + pad;
+        shelfHeight = 0;
+      }
+      f.frame.x = x + ext;
+      f.frame.y = y + ext;
+      x += slotW(f) + pad;
+      shelfHeight = Math.max(shelfHeight, slotH(f));
+      sheetWidth = Math.max(sheetWidth, x - pad);
+    }
+    return { width: sheetWidth, height: y + shelfHeight };
+  }
+
+  const columns = options.layout === 'row'
+    ? frames.length
+    : Math.max(1, options.columns || Math.ceil(Math.sqrt(frames.length)));
+  const cellW = Math.max(...frames.map(slotW));
+  const cellH = Math.max(...frames.map(slotH));
+
+  frames.forEach((f, i) => {
+    f.frame.x = (i % columns) * (cellW + pad) + ext;
+    f.frame.y = Math.floor(i / columns) * (cellH + pad) + ext;
+  });
+
+  const rows = Math.ceil(frames.length / columns);
+  return {
+    width: Math.min(columns, frames.length) * (cellW + pad) - pad,
+    height: rows * (cellH + pad) - pad,
+  };
+};
+
+/**
+ * Repeats the outermost pixels of a frame outward so texture filtering never samples a neighbour.
+ */
+const extrudeFrame = (ctx: CanvasRenderingContext2D, f: PackedFrame, ext: number) => {
+  const { x, y, w, h } = f.frame;
+  const src = f.canvas;
+  // Edges
+  ctx.drawImage(src, 0, 0, 1, h, x - ext, y, ext, h);
+  ctx.drawImage(src, w - 1, 0, 1, h, x + w, y, ext, h);
+  ctx.drawImage(src, 0, 0, w, 1, x, y - ext, w, ext);
+  ctx.drawImage(src, 0, h - 1, w, 1, x, y + h, w, ext);
+  // Corners
+  ctx.drawImage(src, 0, 0, 1, 1, x - ext, y - ext, ext, ext);
+  ctx.drawImage(src, w - 1, 0, 1, 1, x + w, y - ext, ext, ext);
+  ctx.drawImage(src, 0, h - 1, 1, 1, x - ext, y + h, ext, ext);
+  ctx.drawImage(src, w - 1, h - 1, 1, 1, x + w, y + h, ext, ext);
+};
+
+const toFrameEntry = (f: PackedFrame) => ({
+  frame: f.frame,
+  rotated: false,
+  trimmed: f.trimmed,
+  spriteSourceSize: f.spriteSourceSize,
+  sourceSize: f.sourceSize,
+  duration: f.duration,
+});
+
+/**
+ * Builds the atlas descriptor.
+ * 'hash' and 'array' follow the TexturePacker JSON formats Phaser loads with load.atlas;
+ * 'aseprite' follows Aseprite's export with frame durations and an animation tag.
+ */
+const buildAtlas = (
+  frames: PackedFrame[],
+  options: SpriteSheetExportOptions,
+  timing: TimingOptions,
+  width: number,
+  height: number
+): object => {
+  const meta = {
+    app: 'ToonMotion',
+    version: '1.0',
+    image: SHEET_IMAGE_NAME,
+    format: 'RGBA8888',
+    size: { w: width, h: height },
+    scale: '1',
+  };
+
+  if (options.format === 'array') {
+    return { frames: frames.map(f => ({ filename: f.name, ...toFrameEntry(f) })), meta };
+  }
+
+  if (options.format === 'aseprite') {
+    return {
+      frames: frames.map(f => ({ filename: f.name, ...toFrameEntry(f) })),
+      meta: {
+        ...meta,
+        frameTags: [{ name: 'animation', from: 0, to: frames.length - 1, direction: timing.playback === 'pingpong' ? 'pingpong' : 'forward' }],
+        layers: [{ name: 'Layer', opacity: 255, blendMode: 'normal' }],
+        slices: [],
+      },
+    };
+  }
+
+  const hash: Record<string, object> = {};
+  frames.forEach(f => { hash[f.name] = toFrameEntry(f); });
+  return { frames: hash, meta };
+};
+
+/**
+ * Packs frames into a single sprite sheet PNG plus a matching atlas descriptor.
+ */
+export const createSpriteSheet = async (
+  frames: GeneratedFrame[],
+  fps: number,
+  options: SpriteSheetExportOptions = DEFAULT_SPRITE_SHEET_EXPORT,
+  timing: TimingOptions = DEFAULT_TIMING
+): Promise<SpriteSheetResult> => {
+  const durations = computeFrameDurations(frames, fps, timing);
+  const prepared = prepareFrames(frames, durations, options.layout === 'packed');
+  if (prepared.length === 0) {
+    throw new Error("No frames to pack");
+  }
+
+  const { width, height } = layoutFrames(prepared, options);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context not available");
+  ctx.imageSmoothingEnabled = false;
+
+  for (const f of prepared) {
+    ctx.drawImage(f.canvas, f.frame.x, f.frame.y);
+    if (options.extrude > 0) extrudeFrame(ctx, f, options.extrude);
+  }
+
+  const image = await new Promise<Blob | null>(r => canvas.toBlob(r, 'image/png'));
+  if (!image) throw new Error("Failed to encode sprite sheet.");
+
+  // Atlas entries stay in playback order even when packing reorders them
+  return { image, atlas: buildAtlas(prepared, options, timing, width, height), width, height };
+};
+
+/**
+ * Creates a ZIP with the sprite sheet PNG and its JSON atlas side by side.
+ */
+export const createSpriteSheetZip = async (
+  frames: GeneratedFrame[],
+  fps: number,
+  options: SpriteSheetExportOptions = DEFAULT_SPRITE_SHEET_EXPORT,
+  timing: TimingOptions = DEFAULT_TIMING
+): Promise<Blob> => {
+  if (!window.JSZip) {
+    throw new Error("JSZip library not loaded");
+  }
+
+  const { image, atlas } = await createSpriteSheet(frames, fps, options, timing);
+
+  const zip = new window.JSZip();
+  zip.file(SHEET_IMAGE_NAME, image);
+  zip.file('spritesheet.json', JSON.stringify(atlas, null, 2));
+
+  return await zip.generateAsync({ type: "blob" });
+};
@@ -0,0 +1,340 @@
+import { BatchJob, BatchJobInput, FrameProvider } from "../types";
+import { ABORT_MESSAGE, classifyError, generateAnimationFrames, sleep } from "./frameGenerator";
+import { getFrameProvider } from "./providers";
+import { processGeneratedFrames } from "./videoProcessor";
+import { optimizeApng } from "./apngOptimizer";
+import { exportSticker, STICKER_PLATFORMS } from "./stickerPresets";
+import { createSessionId } from "./historyStore";
+import { framePoses } from "./frameScript";
+
+export interface BatchQueueOptions {
+  maxConcurrentJobs: number;
+  maxRequestsInFlight: number; // Frame requests across all running jobs
+  minRequestIntervalMs: number; // Spacing between request starts across all jobs
+  rateLimitCooldownMs: number; // Pause for every job after any of them hits a 429
+}
+
+export const DEFAULT_BATCH_OPTIONS: BatchQueueOptions = {
+  maxConcurrentJobs: 2,
+  maxRequestsInFlight: 4,
+  minRequestIntervalMs: 400,
+  rateLimitCooldownMs: 8000,
+};
+
+export interface BatchQueue {
+  enqueue: (inputs: BatchJobInput[]) => void;
+  pause: (id: string) => void;
+  resume: (id: string) => void;
+  cancel: (id: string) => void;
+  remove: (id: string) => void;
+  getJobs: () => BatchJob[];
+  subscribe: (listener: (jobs: BatchJob[]) => void) => () => void;
+}
+
+const POLL_MS = 100;
+
+interface RequestLimiter {
+  acquire: (signal?: AbortSignal) => Promise<() => void>;
+  cooldown: (ms: number) => void;
+}
+
+/**
+ * Shared gate for frame requests: caps how many are in flight and how fast new ones start.
+ */
+const createRequestLimiter = (options: BatchQueueOptions): RequestLimiter => {
+  let inFlight = 0;
+  let nextStart = 0;
+
+  return {
+    acquire: async (signal) => {
+      for (;;) {
+        if (signal?.aborted) throw new Error(ABORT_MESSAGE);
+        const wait = nextStart - Date.now();
+        if (inFlight < options.maxRequestsInFlight && wait <= 0) {
+          inFlight++;
+          nextStart = Date.now() + options.minRequestIntervalMs;
+          let released = false;
+          return () => {
+            if (!released) inFlight--;
+            released = true;
+          };
+        }
+        await sleep(Math.max(POLL_MS, Math.min(wait, 1000)), signal);
+      }
+    },
+    cooldown: (ms) => {
+      nextStart = Math.max(nextStart, Date.now() + ms);
+    },
+  };
+};
+
+/**
+ * Routes a provider's requests through the shared limiter.
+ */
+const throttleProvider = (
+  provider: FrameProvider,
+  limiter: RequestLimiter,
+  options: BatchQueueOptions,
+  signal: AbortSignal
+): FrameProvider => ({
+  ...provider,
+  generateFrame: async (...args) => {
+    const release = await limiter.acquire(signal);
+    try {
+      return await provider.generateFrame(...args);
+    } catch (error) {
+      if (classifyError(error) === 'rateLimit') limiter.cooldown(options.rateLimitCooldownMs);
+      throw error;
+    } finally {
+      release();
+    }
+  },
+});
+
+/**
+ * Job queue that runs several generations at once under shared concurrency and rate limits.
+ * Slots that finished before a pause are kept, so resuming only generates what is left.
+ */
+export const createBatchQueue = (options: BatchQueueOptions = DEFAULT_BATCH_OPTIONS): BatchQueue => {
+  let jobs: BatchJob[] = [];
+  const listeners = new Set<(jobs: BatchJob[]) => void>();
+  const controllers = new Map<string, AbortController>();
+  const slotUrls = new Map<string, (string | null)[]>();
+  // Slots whose provider call is still running, possibly from a run that was paused meanwhile
+  const inFlightSlots = new Map<string, Set<number>>();
+  const limiter = createRequestLimiter(options);
+
+  const emit = () => listeners.forEach(listener => listener(jobs));
+
+  const update = (id: string, patch: Partial<BatchJob>) => {
+    jobs = jobs.map(job => (job.id === id ? { ...job, ...patch } : job));
+    emit();
+  };
+
+  const find = (id: string) => jobs.find(job => job.id === id);
+
+  const releaseSlots = (id: string) => {
+    slotUrls.get(id)?.forEach(url => url && URL.revokeObjectURL(url));
+    slotUrls.delete(id);
+    inFlightSlots.delete(id);
+  };
+
+  const run = async (job: BatchJob) => {
+    const { config, reference } = job;
+    const controller = new AbortController();
+    controllers.set(job.id, controller);
+
+    const urls = slotUrls.get(job.id) || new Array(config.frameCount).fill(null);
+    slotUrls.set(job.id, urls);
+    const inFlight = inFlightSlots.get(job.id) || new Set<number>();
+    inFlightSlots.set(job.id, inFlight);
+    // Slots still being generated by an earlier run land through its onFrame, so they are not requested again
+    const remaining = urls.map((url, i) => (url || inFlight.has(i) ? -1 : i)).filter(i => i >= 0);
+    update(job.id, { status: 'running', error: undefined });
+
+    try {
+      const throttled = throttleProvider(getFrameProvider(config.providerId), limiter, options, controller.signal);
+      const provider: FrameProvider = {
+        ...throttled,
+        generateFrame: async (...args) => {
+          const index = args[3];
+          inFlight.add(index);
+          try {
+            return await throttled.generateFrame(...args);
+          } finally {
+            inFlight.delete(index);
+          }
+        },
+      };
+      const result = await generateAnimationFrames(
+        provider,
+        reference.dataUrl.split(',')[1],
+        reference.mimeType,
+        config.prompt,
+        config.frameCount,
+        controller.signal,
+        {
+          mode: config.generationMode,
+          chainFirstFrame: config.chainFirstFrame,
+          indices: remaining,
+          poses: framePoses(config),
+          onFrame: (index, url) => {
+            // Calls already running when the job was paused, cancelled or removed still finish
+            const current = find(job.id);
+            if (urls[index] || slotUrls.get(job.id) !== urls || !current || current.status === 'cancelled') {
+              URL.revokeObjectURL(url);
+              return;
+            }
+            urls[index] = url;
+            const completedSlots = urls.filter(Boolean).length;
+            update(job.id, { completedSlots, progress: Math.round((completedSlots / config.frameCount) * 90) });
+          },
+        }
+      );
+
+      update(job.id, { status: 'processing', progress: 90 });
+      const slots = urls.map((url, i) => (url ? i : -1)).filter(i => i >= 0);
+      const processed = await processGeneratedFrames(
+        slots.map(i => urls[i] as string),
+        config.outputSize?.width || reference.width,
+        config.outputSize?.height || reference.height,
+        config.zoom,
+        config.background,
+        config.normalization,
+        reference.dataUrl,
+        undefined,
+        config.color
+      );
+      const rawOutputs = await Promise.all(urls.map(url => (url ? fetch(url).then(r => r.blob()) : null)));
+      releaseSlots(job.id);
+      // Processing cannot be interrupted, so a cancel or removal meanwhile only shows up here
+      if (find(job.id)?.status !== 'processing') return;
+
+      const failedIndices = urls
+        .map((_, i) => i)
+        .filter(i => !processed.some(frame => slots[frame.index] === i));
+
+      if (processed.length === 0) {
+        throw new Error(result.failures[0]?.error || "No character was detected in any frame.");
+      }
+
+      update(job.id, {
+        status: 'done',
+        progress: 100,
+        frames: processed.map((frame, i) => ({ ...frame, index: i })),
+        rawOutputs,
+        failedIndices: failedIndices.length > 0 ? failedIndices : undefined,
+      });
+    } catch (e: any) {
+      const current = find(job.id);
+      if (!current || current.status === 'cancelled') {
+        releaseSlots(job.id);
+      } else if (e.message === ABORT_MESSAGE && current.status === 'paused') {
+        // Finished slots stay in slotUrls for resume()
+      } else {
+        console.error(`Batch job "${job.name}" failed:`, e);
+        update(job.id, { status: 'failed', error: e.message || "Generation failed" });
+        releaseSlots(job.id);
+      }
+    } finally {
+      controllers.delete(job.id);
+      pump();
+    }
+  };
+
+  const pump = () => {
+    const active = jobs.filter(job => job.status === 'running' || job.status === 'processing').length;
+    const next = jobs.filter(job => job.status === 'queued').slice(0, Math.max(0, options.maxConcurrentJobs - active));
+    next.forEach(job => run(job));
+  };
+
+  return {
+    enqueue: (inputs) => {
+      jobs = [
+        ...jobs,
+        ...inputs.map(input => ({ ...input, id: createSessionId(), status: 'queued' as const, progress: 0, completedSlots: 0 })),
+      ];
+      emit();
+      pump();
+    },
+    pause: (id) => {
+      const job = find(id);
+      if (!job || (job.status !== 'queued' && job.status !== 'running')) return;
+      update(id, { status: 'paused' });
+      controllers.get(id)?.abort();
+    },
+    resume: (id) => {
+      const job = find(id);
+      if (!job || (job.status !== 'paused' && job.status !== 'failed')) return;
+      update(id, { status: 'queued', error: undefined });
+      pump();
+    },
+    cancel: (id) => {
+      const job = find(id);
+      if (!job || job.status === 'done' || job.status === 'cancelled') return;
+      update(id, { status: 'cancelled' });
+      // A running job cleans up in its own catch; a paused one still holds its finished slots
+      if (controllers.has(id)) controllers.get(id)!.abort();
+      else releaseSlots(id);
+    },
+    remove: (id) => {
+      controllers.get(id)?.abort();
+      releaseSlots(id);
+      jobs = jobs.filter(job => job.id !== id);
+      emit();
+    },
+    getJobs: () => jobs,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+};
+
+const slugify = (name: string) =>
+  name.replace(/[\\/:*?"<>|\s]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'job';
+
+/**
+ * Packs every finished job into one zip: per-job APNG, PNG frames and platform sticker,
+ * plus a manifest describing each job and its files.
+ */
+export const createBatchZip = async (jobs: BatchJob[]): Promise<Blob> => {
+  if (!window.JSZip) {
+    throw new Error("JSZip library not loaded");
+  }
+
+  const zip = new window.JSZip();
+  const entries = [];
+
+  for (const [n, job] of jobs.entries()) {
+    const folder = `${(n + 1).toString().padStart(2, '0')}-${slugify(job.name)}`;
+    const entry: Record<string, any> = {
+      id: job.id,
+      name: job.name,
+      prompt: job.config.prompt,
+      status: job.status,
+      fps: job.config.fps,
+      frameCount: job.frames?.length || 0,
+      failedSlots: job.failedIndices || [],
+      error: job.error,
+    };
+
+    if (job.status === 'done' && job.frames && job.frames.length > 0) {
+      const { config } = job;
+      const files: Record<string, any> = { frames: [] };
+
+      job.frames.forEach((frame, i) => {
+        const path = `${folder}/frames/frame_${(i + 1).toString().padStart(2, '0')}.png`;
+        zip.file(path, frame.blob);
+        files.frames.push(path);
+      });
+
+      const apng = await optimizeApng(job.frames, config.fps, config.timing, config.apng);
+      files.apng = `${folder}/animation.png`;
+      zip.file(files.apng, apng.blob);
+
+      if (config.platform !== 'none') {
+        try {
+          const sticker = await exportSticker(job.frames, config);
+          const format = STICKER_PLATFORMS[config.platform].format;
+          files.sticker = `${folder}/sticker-${config.platform}.${format === 'apng' ? 'png' : format}`;
+          zip.file(files.sticker, sticker.blob);
+          entry.stickerChecks = sticker.report.after;
+        } catch (e) {
+          console.warn(`Sticker export failed for "${job.name}"`, e);
+        }
+      }
+      entry.files = files;
+    }
+    entries.push(entry);
+  }
+
+  zip.file('manifest.json', JSON.stringify({
+    format: 'toonmotion-batch',
+    version: 1,
+    createdAt: new Date().toISOString(),
+    jobs: entries,
+  }, null, 2));
+
+  return await zip.generateAsync({ type: "blob" });
+};
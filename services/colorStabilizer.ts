@@ -0,0 +1,193 @@
+import { ColorStabilizationOptions } from "../types";
+
+export const DEFAULT_COLOR_STABILIZATION: ColorStabilizationOptions = {
+  mode: 'off',
+  strength: 0.6,
+  paletteSize: 16,
+};
+
+// Pixels at least this opaque count as foreground for statistics
+const FOREGROUND_ALPHA = 128;
+// Statistics look at no more than this many foreground pixels
+const MAX_SAMPLES = 40000;
+
+type Rgb = [number, number, number];
+
+export interface ReferenceColors {
+  palette: Rgb[];
+  paletteLab: Rgb[];
+  cdf: Float32Array[]; // Cumulative foreground histogram per RGB channel
+}
+
+// sRGB to CIE Lab (D65), used for perceptual distances
+const toLab = (r: number, g: number, b: number): Rgb => {
+  const lin = (c: number) => {
+    const v = c / 255;
+    return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+  };
+  const rl = lin(r), gl = lin(g), bl = lin(b);
+  const x = (rl * 0.4124 + gl * 0.3576 + bl * 0.1805) / 0.95047;
+  const y = rl * 0.2126 + gl * 0.7152 + bl * 0.0722;
+  const z = (rl * 0.0193 + gl * 0.1192 + bl * 0.9505) / 1.08883;
+  const f = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+  return [116 * f(y) - 16, 500 * (f(x) - f(y)), 200 * (f(y) - f(z))];
+};
+
+const distanceSq = (a: Rgb, b: Rgb) => (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+
+// Every n-th foreground pixel, so large frames stay fast
+const sampleForeground = (data: Uint8ClampedArray): Rgb[] => {
+  let count = 0;
+  for (let p = 3; p < data.length; p += 4) if (data[p] >= FOREGROUND_ALPHA) count++;
+  const stride = Math.max(1, Math.floor(count / MAX_SAMPLES));
+  const samples: Rgb[] = [];
+  let seen = 0;
+  for (let p = 0; p < data.length; p += 4) {
+    if (data[p + 3] < FOREGROUND_ALPHA) continue;
+    if (seen++ % stride === 0) samples.push([data[p], data[p + 1], data[p + 2]]);
+  }
+  return samples;
+};
+
+/**
+ * Median cut: repeatedly splits the box with the widest channel range at its median.
+ */
+const medianCut = (pixels: Rgb[], size: number): Rgb[] => {
+  if (pixels.length === 0) return [];
+  const boxes: Rgb[][] = [pixels];
+
+  while (boxes.length < size) {
+    let target = -1;
+    let channel = 0;
+    let widest = 0;
+    boxes.forEach((box, i) => {
+      if (box.length < 2) return;
+      for (let c = 0; c < 3; c++) {
+        let min = 255, max = 0;
+        for (const px of box) {
+          if (px[c] < min) min = px[c];
+          if (px[c] > max) max = px[c];
+        }
+        if (max - min > widest) {
+          widest = max - min;
+          target = i;
+          channel = c;
+        }
+      }
+    });
+    if (target < 0 || widest === 0) break;
+
+    const box = boxes[target].sort((a, b) => a[channel] - b[channel]);
+    const mid = box.length >> 1;
+    boxes.splice(target, 1, box.slice(0, mid), box.slice(mid));
+  }
+
+  return boxes.map(box => {
+    const sum = box.reduce((acc, px) => [acc[0] + px[0], acc[1] + px[1], acc[2] + px[2]], [0, 0, 0]);
+    return [Math.round(sum[0] / box.length), Math.round(sum[1] / box.length), Math.round(sum[2] / box.length)] as Rgb;
+  });
+};
+
+const channelCdfs = (pixels: Rgb[]): Float32Array[] => {
+  return [0, 1, 2].map(c => {
+    const cdf = new Float32Array(256);
+    for (const px of pixels) cdf[px[c]]++;
+    for (let v = 1; v < 256; v++) cdf[v] += cdf[v - 1];
+    const total = cdf[255] || 1;
+    for (let v = 0; v < 256; v++) cdf[v] /= total;
+    return cdf;
+  });
+};
+
+/**
+ * Palette and colour distribution of the reference character's foreground.
+ * Returns null when the reference has no foreground to learn from.
+ */
+export const buildReferenceColors = (data: Uint8ClampedArray, paletteSize: number): ReferenceColors | null => {
+  const pixels = sampleForeground(data);
+  if (pixels.length === 0) return null;
+  const palette = medianCut(pixels, paletteSize);
+  return { palette, paletteLab: palette.map(c => toLab(...c)), cdf: channelCdfs(pixels) };
+};
+
+// Nearest palette entry per colour, cached on 5-bit channels
+const createNearest = (reference: ReferenceColors) => {
+  const cache = new Map<number, number>();
+  return (r: number, g: number, b: number): number => {
+    const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+    let index = cache.get(key);
+    if (index === undefined) {
+      const lab = toLab(r, g, b);
+      let best = Infinity;
+      index = 0;
+      reference.paletteLab.forEach((entry, i) => {
+        const d = distanceSq(lab, entry);
+        if (d < best) {
+          best = d;
+          index = i;
+        }
+      });
+      cache.set(key, index);
+    }
+    return index;
+  };
+};
+
+/**
+ * Mean Lab distance (ΔE) from each foreground pixel to its nearest reference colour.
+ * Around 2 is barely visible; above 10 the frame has clearly shifted.
+ */
+export const measureColorDrift = (data: Uint8ClampedArray, reference: ReferenceColors): number => {
+  const pixels = sampleForeground(data);
+  if (pixels.length === 0) return 0;
+  const nearest = createNearest(reference);
+  const distance = (px: Rgb) => Math.sqrt(distanceSq(toLab(...px), reference.paletteLab[nearest(...px)]));
+  return pixels.reduce((sum, px) => sum + distance(px), 0) / pixels.length;
+};
+
+/**
+ * Per-channel lookup tables that map the frame's foreground distribution onto the reference's.
+ */
+const histogramLuts = (data: Uint8ClampedArray, reference: ReferenceColors): Uint8Array[] => {
+  const own = channelCdfs(sampleForeground(data));
+  return own.map((cdf, c) => {
+    const target = reference.cdf[c];
+    const lut = new Uint8Array(256);
+    let v = 0;
+    for (let i = 0; i < 256; i++) {
+      while (v < 255 && target[v] < cdf[i]) v++;
+      lut[i] = v;
+    }
+    return lut;
+  });
+};
+
+/**
+ * Pulls the frame's visible pixels toward the reference colours in place.
+ * 'histogram' matches the overall colour distribution; 'palette' snaps each pixel to the nearest reference colour.
+ */
+export const stabilizePixels = (
+  data: Uint8ClampedArray,
+  reference: ReferenceColors,
+  options: ColorStabilizationOptions
+) => {
+  const strength = Math.min(1, Math.max(0, options.strength));
+  if (options.mode === 'off' || strength === 0) return;
+
+  const luts = options.mode === 'histogram' ? histogramLuts(data, reference) : null;
+  const nearest = options.mode === 'palette' ? createNearest(reference) : null;
+
+  for (let p = 0; p < data.length; p += 4) {
+    if (data[p + 3] === 0) continue;
+    const r = data[p], g = data[p + 1], b = data[p + 2];
+    let target: Rgb;
+    if (luts) {
+      target = [luts[0][r], luts[1][g], luts[2][b]];
+    } else {
+      target = reference.palette[nearest!(r, g, b)];
+    }
+    data[p] = r + (target[0] - r) * strength;
+    data[p + 1] = g + (target[1] - g) * strength;
+    data[p + 2] = b + (target[2] - b) * strength;
+  }
+};
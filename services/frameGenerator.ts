@@ -0,0 +1,315 @@
+import { AnimationFramesResult, FrameContext, FrameFailure, FrameProvider, InlineImage } from "../types";
+import { poseForFrame } from "./motionPresets";
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number; // Backoff base for transient errors (5xx, network)
+  rateLimitDelayMs: number; // Backoff base after a 429
+  maxDelayMs: number;
+  maxConcurrency: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  rateLimitDelayMs: 4000,
+  maxDelayMs: 20000,
+  maxConcurrency: 3,
+};
+
+export interface GenerateOptions {
+  mode?: 'parallel' | 'chained';
+  chainFirstFrame?: boolean;
+  indices?: number[]; // Only generate these slots, e.g. to retry failures
+  completed?: (Blob | null)[]; // Frames already finished in the other slots; chained retries continue from them
+  poses?: string[]; // Motion preset poses, spread over `count` frames
+  retryPolicy?: Partial<RetryPolicy>;
+  onProgress?: (completed: number, total: number) => void;
+  onFrame?: (index: number, url: string) => void; // Called as soon as a slot succeeds, so partial work survives an abort
+}
+
+type ErrorKind = 'rateLimit' | 'transient' | 'fatal';
+
+export const ABORT_MESSAGE = "Generation aborted by user.";
+
+/**
+ * Sorts an error into a retry policy.
+ * Safety blocks, refusals and auth problems fail fast; everything else is worth another try.
+ */
+export const classifyError = (error: any): ErrorKind => {
+  const message = String(error?.message || error);
+  const status = error?.status ?? error?.code;
+
+  if (status === 429 || /429|RESOURCE_EXHAUSTED|rate limit|quota/i.test(message)) {
+    return 'rateLimit';
+  }
+  if (/SAFETY|PROHIBITED_CONTENT|BLOCKLIST|RECITATION|Model Refusal|API Key not found|INVALID_ARGUMENT|PERMISSION_DENIED|UNAUTHENTICATED/.test(message)) {
+    return 'fatal';
+  }
+  if (typeof status === 'number' && status >= 400 && status < 500) {
+    return 'fatal';
+  }
+  return 'transient';
+};
+
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error(ABORT_MESSAGE));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error(ABORT_MESSAGE));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+// Exponential backoff with "equal jitter": half fixed, half random
+const backoffDelay = (attempt: number, kind: ErrorKind, policy: RetryPolicy): number => {
+  const base = kind === 'rateLimit' ? policy.rateLimitDelayMs : policy.baseDelayMs;
+  const capped = Math.min(policy.maxDelayMs, base * Math.pow(2, attempt));
+  return capped / 2 + Math.random() * (capped / 2);
+};
+
+/**
+ * Reads a Blob (or a blob: URL) into base64 inline image data.
+ */
+export const blobToInlineImage = async (source: Blob | string): Promise<InlineImage> => {
+  const blob = typeof source === 'string' ? await (await fetch(source)).blob() : source;
+  const dataUrl = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error("Failed to read frame data."));
+    reader.readAsDataURL(blob);
+  });
+  return { data: dataUrl.split(',')[1], mimeType: blob.type || 'image/png' };
+};
+
+/**
+ * Generates one frame, retrying retryable errors with exponential backoff and jitter.
+ * `onRateLimit` lets the caller throttle other in-flight work.
+ */
+export const generateFrameWithRetry = async (
+  provider: FrameProvider,
+  imageBase64: string,
+  mimeType: string,
+  prompt: string,
+  index: number,
+  total: number,
+  context?: FrameContext,
+  signal?: AbortSignal,
+  retryPolicy: Partial<RetryPolicy> = {},
+  onRateLimit?: () => void
+): Promise<string> => {
+  const policy = { ...DEFAULT_RETRY_POLICY, ...retryPolicy };
+
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) {
+      throw new Error(ABORT_MESSAGE);
+    }
+    try {
+      return await provider.generateFrame(imageBase64, mimeType, prompt, index, total, context);
+    } catch (error: any) {
+      const kind = classifyError(error);
+      if (kind === 'rateLimit') onRateLimit?.();
+      if (kind === 'fatal' || attempt >= policy.maxRetries) {
+        throw error;
+      }
+      const delay = backoffDelay(attempt, kind, policy);
+      console.warn(`Frame ${index + 1} failed (${kind}), retrying in ${Math.round(delay)}ms`, error);
+      await sleep(delay, signal);
+    }
+  }
+};
+
+const toFailure = (index: number, error: any): FrameFailure => ({
+  index,
+  error: String(error?.message || error),
+  retryable: classifyError(error) !== 'fatal',
+});
+
+/**
+ * Generates frames one after another, feeding each call the previous result.
+ * Slower than batching but gives much more coherent motion.
+ * A failed frame is skipped and the chain continues from the last good one.
+ */
+const generateChainedFrames = async (
+  provider: FrameProvider,
+  imageBase64: string,
+  mimeType: string,
+  prompt: string,
+  count: number,
+  indices: number[],
+  includeFirstFrame: boolean,
+  signal: AbortSignal | undefined,
+  options: GenerateOptions
+): Promise<AnimationFramesResult> => {
+  const urls: (string | null)[] = new Array(count).fill(null);
+  const failures: FrameFailure[] = [];
+  const completed = options.completed || [];
+  let firstFrame: InlineImage | undefined = completed[0] ? await blobToInlineImage(completed[0]) : undefined;
+  let previousFrame: InlineImage | undefined;
+  let previousIndex = -1;
+
+  for (let n = 0; n < indices.length; n++) {
+    const i = indices[n];
+    if (signal?.aborted) {
+        throw new Error(ABORT_MESSAGE);
+    }
+
+    // When only some slots are generated, chain from the nearest earlier finished frame
+    let earlier = i - 1;
+    while (earlier > previousIndex && !completed[earlier]) earlier--;
+    if (earlier > previousIndex) {
+      previousFrame = await blobToInlineImage(completed[earlier]!);
+      previousIndex = earlier;
+    }
+
+    const context: FrameContext = {
+      previousFrame,
+      // Frame 2 already sees frame 1 as its previous frame
+      firstFrame: includeFirstFrame && i >= 2 ? firstFrame : undefined,
+      pose: poseForFrame(options.poses, i, count),
+    };
+
+    try {
+      const url = await generateFrameWithRetry(
+        provider, imageBase64, mimeType, prompt, i, count, context, signal, options.retryPolicy
+      );
+      urls[i] = url;
+      options.onFrame?.(i, url);
+
+      previousFrame = await blobToInlineImage(url);
+      previousIndex = i;
+      if (i === 0) firstFrame = previousFrame;
+    } catch (error: any) {
+      if (signal?.aborted) throw new Error(ABORT_MESSAGE);
+      console.error(`Error generating frame ${i + 1}:`, error);
+      failures.push(toFailure(i, error));
+    }
+
+    options.onProgress?.(n + 1, indices.length);
+  }
+
+  return { urls, failures };
+};
+
+/**
+ * Generates frames through a worker pool.
+ * Concurrency halves on every rate limit and slowly recovers after a run of successes.
+ */
+const generateParallelFrames = async (
+  provider: FrameProvider,
+  imageBase64: string,
+  mimeType: string,
+  prompt: string,
+  count: number,
+  indices: number[],
+  signal: AbortSignal | undefined,
+  options: GenerateOptions
+): Promise<AnimationFramesResult> => {
+  const policy = { ...DEFAULT_RETRY_POLICY, ...options.retryPolicy };
+  const urls: (string | null)[] = new Array(count).fill(null);
+  const failures: FrameFailure[] = [];
+  const queue = [...indices];
+
+  let concurrency = policy.maxConcurrency;
+  let active = 0;
+  let completed = 0;
+  let successStreak = 0;
+
+  const onRateLimit = () => {
+    successStreak = 0;
+    concurrency = Math.max(1, Math.floor(concurrency / 2));
+  };
+
+  await new Promise<void>((resolve) => {
+    signal?.addEventListener('abort', () => resolve(), { once: true });
+
+    const launch = () => {
+      if (signal?.aborted) return;
+      if (queue.length === 0 && active === 0) {
+        resolve();
+        return;
+      }
+
+      let stagger = 0;
+      while (active < concurrency && queue.length > 0) {
+        const index = queue.shift()!;
+        active++;
+
+        // Add a tiny delay between requests to be nice to the API
+        sleep(100 * stagger++, signal)
+          .then(() => generateFrameWithRetry(
+            provider, imageBase64, mimeType, prompt, index, count,
+            { pose: poseForFrame(options.poses, index, count) }, signal, policy, onRateLimit
+          ))
+          .then((url) => {
+            urls[index] = url;
+            options.onFrame?.(index, url);
+            if (++successStreak >= 3 && concurrency < policy.maxConcurrency) {
+              successStreak = 0;
+              concurrency++;
+            }
+          })
+          .catch((error) => {
+            if (signal?.aborted) return;
+            console.error(`Error generating frame ${index + 1}:`, error);
+            successStreak = 0;
+            failures.push(toFailure(index, error));
+          })
+          .finally(() => {
+            active--;
+            options.onProgress?.(++completed, indices.length);
+            launch();
+          });
+      }
+    };
+
+    launch();
+  });
+
+  if (signal?.aborted) {
+      throw new Error(ABORT_MESSAGE);
+  }
+
+  failures.sort((a, b) => a.index - b.index);
+  return { urls, failures };
+};
+
+/**
+ * Generates multiple frames with the given provider, in parallel or sequentially in chained mode.
+ * Failed frames do not discard the others: the result holds every successful frame
+ * plus the failed slots so they can be retried. Throws only if nothing succeeded.
+ * Supports abortion via AbortSignal.
+ */
+export const generateAnimationFrames = async (
+  provider: FrameProvider,
+  imageBase64: string,
+  mimeType: string,
+  prompt: string,
+  count: number,
+  signal?: AbortSignal,
+  options: GenerateOptions = {}
+): Promise<AnimationFramesResult> => {
+  const indices = options.indices || Array.from({ length: count }, (_, i) => i);
+
+  const result = options.mode === 'chained'
+    ? await generateChainedFrames(
+        provider, imageBase64, mimeType, prompt, count, indices, options.chainFirstFrame ?? true, signal, options
+      )
+    : await generateParallelFrames(provider, imageBase64, mimeType, prompt, count, indices, signal, options);
+
+  if (result.failures.length === indices.length && indices.length > 0) {
+    // Surface the first error so the caller can explain it (auth, safety, ...)
+    throw new Error(result.failures[0].error);
+  }
+
+  return result;
+};
@@ -0,0 +1,87 @@
+import { UserConfig } from "../types";
+
+export interface FrameScriptResult {
+  poses: string[]; // One entry per frame, '' where the script says nothing
+  errors: string[]; // Problems that block generation
+  warnings: string[];
+}
+
+// Entries on one line are separated by a comma or semicolon that starts a new "N:" or "N-M:"
+const ENTRY_SEPARATOR = /[,，;；]\s*(?=\d+\s*(?:[-–~]\s*\d+)?\s*[:：])/;
+const ENTRY = /^(\d+)\s*(?:[-–~]\s*(\d+))?\s*[:：]\s*([\s\S]*)$/;
+
+// "1, 3-5, 8" from a sorted list of 1-based frame numbers
+const formatRanges = (frames: number[]): string => {
+  const parts: string[] = [];
+  for (let i = 0; i < frames.length; i++) {
+    const start = frames[i];
+    while (i + 1 < frames.length && frames[i + 1] === frames[i] + 1) i++;
+    parts.push(start === frames[i] ? `${start}` : `${start}-${frames[i]}`);
+  }
+  return parts.join('、');
+};
+
+/**
+ * Parses a keyframe script such as "1-2: crouch, 3: leap" into one pose per frame.
+ * Frame numbers are 1-based and checked against `frameCount`; lines starting with # are comments.
+ */
+export const parseFrameScript = (script: string, frameCount: number): FrameScriptResult => {
+  const poses: string[] = new Array(frameCount).fill('');
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const claimedBy: number[] = new Array(frameCount).fill(0); // Line that first described each frame
+
+  script.split('\n').forEach((rawLine, lineIndex) => {
+    const line = rawLine.trim();
+    const lineNumber = lineIndex + 1;
+    if (!line || line.startsWith('#')) return;
+
+    for (const rawEntry of line.split(ENTRY_SEPARATOR)) {
+      const entry = rawEntry.trim();
+      const match = entry.match(ENTRY);
+      if (!match) {
+        errors.push(`第 ${lineNumber} 行：无法识别「${entry.slice(0, 20)}」，格式应为「帧号: 描述」或「起-止: 描述」`);
+        continue;
+      }
+
+      const start = parseInt(match[1]);
+      const end = match[2] ? parseInt(match[2]) : start;
+      const pose = match[3].trim();
+
+      if (!pose) {
+        errors.push(`第 ${lineNumber} 行：第 ${match[2] ? `${start}-${end}` : start} 帧缺少描述`);
+      } else if (start < 1 || end < start) {
+        errors.push(`第 ${lineNumber} 行：帧范围 ${start}-${end} 无效`);
+      } else if (end > frameCount) {
+        errors.push(`第 ${lineNumber} 行：第 ${end} 帧超出总帧数 ${frameCount}`);
+      } else {
+        const overlap: number[] = [];
+        for (let frame = start; frame <= end; frame++) {
+          if (claimedBy[frame - 1]) overlap.push(frame);
+          else {
+            claimedBy[frame - 1] = lineNumber;
+            poses[frame - 1] = pose;
+          }
+        }
+        if (overlap.length > 0) {
+          errors.push(`第 ${lineNumber} 行：第 ${formatRanges(overlap)} 帧已在前面描述过`);
+        }
+      }
+    }
+  });
+
+  const uncovered = poses.map((pose, i) => (pose ? 0 : i + 1)).filter(Boolean);
+  if (uncovered.length === frameCount) {
+    errors.push('脚本为空，请至少描述一帧');
+  } else if (uncovered.length > 0) {
+    warnings.push(`第 ${formatRanges(uncovered)} 帧没有描述，将只使用动作提示词`);
+  }
+
+  return { poses, errors, warnings };
+};
+
+/**
+ * Per-frame poses to generate with: the script in advanced mode, otherwise the motion preset poses.
+ */
+export const framePoses = (config: UserConfig): string[] =>
+  config.scriptEnabled ? parseFrameScript(config.script, config.frameCount).poses : config.poses;
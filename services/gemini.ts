@@ -1,4 +1,5 @@
 import { GoogleGenAI, Modality } from "@google/genai";
+import { FrameContext, FrameProvider, InlineImage } from "../types";
 
 const getAiClient = () => {
   if (!process.env.API_KEY) {
@@ -7,24 +8,48 @@ const getAiClient = () => {
   return new GoogleGenAI({ apiKey: process.env.API_KEY });
 };
 
+/**
+ * Describes the extra images in the order they are attached after the reference.
+ */
+const buildContextPrompt = (index: number, context?: FrameContext): string => {
+  if (!context || (!context.previousFrame && !context.firstFrame && !context.nextFrame)) return '';
+
+  const lines = ['Image 1 is the character design reference.'];
+  let imageNumber = 2;
+  if (context.firstFrame) {
+    lines.push(`Image ${imageNumber++} is frame 1 of this animation, the pose the loop starts from.`);
+  }
+  if (context.previousFrame) {
+    lines.push(`Image ${imageNumber++} is frame ${index} of this animation, the frame just before this one.`);
+    lines.push('Advance the pose a small step from the previous frame so the motion continues smoothly. Keep the camera, scale and position identical.');
+  }
+  if (context.nextFrame) {
+    lines.push(`Image ${imageNumber++} is the frame that comes right after this one.`);
+    lines.push('Draw the in-between pose halfway from the previous frame to the next one, with the same camera, scale and position.');
+  }
+  return `\n  SEQUENCE CONTEXT:\n  ${lines.join('\n  ')}\n  `;
+};
+
 /**
  * Generates a single frame based on the input image and prompt.
+ * An optional context adds neighbouring frames for temporal consistency.
  */
-const generateSingleFrame = async (
+export const generateSingleFrame = async (
   imageBase64: string,
   mimeType: string,
   prompt: string,
   index: number,
-  total: number
+  total: number,
+  context?: FrameContext
 ): Promise<string> => {
   const ai = getAiClient();
 
   // Prompt optimized for single-frame consistency
   const enhancedPrompt = `Generate frame ${index + 1} of ${total} for an animation sequence.
-  
+  ${buildContextPrompt(index, context)}
   Subject: Fictional, generic chibi game character.
   Visual Style: 2D digital game art, flat color, high contrast.
-  Action: ${prompt}
+  Action: ${prompt}${context?.pose ? `\n  Pose for this frame: ${context.pose}` : ''}
   
   CRITICAL CONSTRAINTS:
   1. **View**: Full body, Frontal, Orthographic view.
@@ -46,6 +71,9 @@ const generateSingleFrame = async (
               mimeType: mimeType,
             },
           },
+          ...[context?.firstFrame, context?.previousFrame, context?.nextFrame]
+            .filter((image): image is InlineImage => !!image)
+            .map(image => ({ inlineData: { data: image.data, mimeType: image.mimeType } })),
           {
             text: enhancedPrompt,
           },
@@ -95,44 +123,6 @@ const generateSingleFrame = async (
   }
 };
 
-/**
- * Generates multiple frames in parallel batches.
- * Supports abortion via AbortSignal.
- */
-export const generateAnimationFrames = async (
-  imageBase64: string,
-  mimeType: string,
-  prompt: string,
-  count: number,
-  signal?: AbortSignal
-): Promise<string[]> => {
-  const urls: string[] = [];
-  const batchSize = 3; // Process 3 at a time to avoid rate limits
-
-  for (let i = 0; i < count; i += batchSize) {
-    if (signal?.aborted) {
-        throw new Error("Generation aborted by user.");
-    }
-
-    const batchPromises = [];
-    for (let j = i; j < Math.min(i + batchSize, count); j++) {
-       // Add a tiny delay between requests to be nice to the API
-       await new Promise(r => setTimeout(r, 100 * (j - i)));
-       batchPromises.push(generateSingleFrame(imageBase64, mimeType, prompt, j, count));
-    }
-    
-    const batchResults = await Promise.all(batchPromises);
-    
-    if (signal?.aborted) {
-        throw new Error("Generation aborted by user.");
-    }
-    
-    urls.push(...batchResults);
-  }
-
-  return urls;
-};
-
 export const checkApiKey = async (): Promise<boolean> => {
   if (process.env.API_KEY && process.env.API_KEY.length > 0) {
     return true;
@@ -154,4 +144,12 @@ export const promptApiKeySelection = async (): Promise<void> => {
   } else {
     console.warn("AIStudio API selection not available in this environment.");
   }
-};
\ No newline at end of file
+};
+
+export const geminiProvider: FrameProvider = {
+  id: 'gemini',
+  name: 'Gemini',
+  generateFrame: generateSingleFrame,
+  checkApiKey,
+  selectApiKey: promptApiKeySelection,
+};
@@ -0,0 +1,515 @@
+import { GifOptions } from "../types";
+
+/**
+ * Self-contained GIF89a encoder: palette generation, dithering, LZW and file assembly.
+ * Pure pixel code, so the heavy parts can run in the frame workers.
+ */
+
+export const DEFAULT_GIF_OPTIONS: GifOptions = {
+  palette: 'global',
+  quantizer: 'medianCut',
+  dither: 'none',
+  alphaThreshold: 128,
+  matte: null,
+};
+
+// One palette slot is kept for transparency
+const MAX_COLORS = 255;
+// Palettes are built from at most this many pixels
+const MAX_SAMPLES = 100000;
+// Octree depth; deeper trees only cost memory at GIF palette sizes
+const OCTREE_DEPTH = 6;
+// Amplitude of the ordered dither pattern, in channel steps
+const ORDERED_SPREAD = 24;
+
+const BAYER_4X4 = [0, 8, 2, 10, 12, 4, 14, 6, 3, 11, 1, 9, 15, 7, 13, 5];
+
+export interface EncodedGifFrame {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  palette: Uint8Array | null; // Local colour table, null when the frame uses the global one
+  transparentIndex: number; // -1 when the frame has no transparent pixels
+  minCodeSize: number;
+  data: Uint8Array; // LZW data already split into sub-blocks
+}
+
+const parseHex = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.replace('#', ''), 16) || 0;
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+};
+
+/**
+ * Applies the alpha threshold and matte: pixels below the threshold become transparent (alpha 0),
+ * the rest become opaque, blended over the matte colour by their alpha when a matte is set.
+ */
+const flattenAlpha = (source: Uint8ClampedArray, options: GifOptions): Uint8ClampedArray => {
+  const out = new Uint8ClampedArray(source.length);
+  const matte = options.matte ? parseHex(options.matte) : null;
+  for (let i = 0; i < source.length; i += 4) {
+    const a = source[i + 3];
+    if (a < options.alphaThreshold || a === 0) continue;
+    if (matte && a < 255) {
+      const k = a / 255;
+      out[i] = source[i] * k + matte[0] * (1 - k);
+      out[i + 1] = source[i + 1] * k + matte[1] * (1 - k);
+      out[i + 2] = source[i + 2] * k + matte[2] * (1 - k);
+    } else {
+      out[i] = source[i];
+      out[i + 1] = source[i + 1];
+      out[i + 2] = source[i + 2];
+    }
+    out[i + 3] = 255;
+  }
+  return out;
+};
+
+/**
+ * Evenly spaced RGB triplets from the visible pixels of one or more frames, as they will be encoded.
+ */
+export const sampleGifColors = (frames: Uint8ClampedArray[], options: GifOptions): Uint8Array => {
+  const pixelCount = frames.reduce((sum, f) => sum + f.length / 4, 0);
+  const stride = Math.max(1, Math.floor(pixelCount / MAX_SAMPLES)) * 4;
+  const matte = options.matte ? parseHex(options.matte) : null;
+  const samples: number[] = [];
+  for (const data of frames) {
+    for (let i = 0; i < data.length; i += stride) {
+      const a = data[i + 3];
+      if (a < options.alphaThreshold || a === 0) continue;
+      const k = matte ? a / 255 : 1;
+      for (let c = 0; c < 3; c++) {
+        samples.push(Math.round(data[i + c] * k + (matte ? matte[c] * (1 - k) : 0)));
+      }
+    }
+  }
+  return Uint8Array.from(samples);
+};
+
+interface ColorBox {
+  start: number; // Range of the sample order the box covers
+  end: number;
+  channel: number; // Widest channel and its range
+  width: number;
+}
+
+/**
+ * Median cut: repeatedly splits the box with the widest channel range at its median.
+ */
+const medianCut = (samples: Uint8Array, maxColors: number): Uint8Array => {
+  const count = samples.length / 3;
+  const order = new Uint32Array(count).map((_, i) => i * 3);
+
+  // Widest channel of a box, measured once when the box is created
+  const createBox = (start: number, end: number): ColorBox => {
+    const box = { start, end, channel: 0, width: 0 };
+    for (let c = 0; c < 3; c++) {
+      let min = 255, max = 0;
+      for (let i = start; i < end; i++) {
+        const v = samples[order[i] + c];
+        if (v < min) min = v;
+        if (v > max) max = v;
+      }
+      if (max - min > box.width) {
+        box.channel = c;
+        box.width = max - min;
+      }
+    }
+    return box;
+  };
+  const boxes: ColorBox[] = [createBox(0, count)];
+
+  while (boxes.length < maxColors) {
+    let target = -1;
+    boxes.forEach((box, i) => {
+      if (box.end - box.start >= 2 && box.width > 0 && (target < 0 || box.width > boxes[target].width)) target = i;
+    });
+    if (target < 0) break;
+
+    const { start, end, channel } = boxes[target];
+    const sorted = Array.from(order.subarray(start, end)).sort((a, b) => samples[a + channel] - samples[b + channel]);
+    order.set(sorted, start);
+    const mid = (start + end) >> 1;
+    boxes.splice(target, 1, createBox(start, mid), createBox(mid, end));
+  }
+
+  const palette = new Uint8Array(boxes.length * 3);
+  boxes.forEach((box, b) => {
+    const sum = [0, 0, 0];
+    for (let i = box.start; i < box.end; i++) {
+      for (let c = 0; c < 3; c++) sum[c] += samples[order[i] + c];
+    }
+    const n = Math.max(1, box.end - box.start);
+    for (let c = 0; c < 3; c++) palette[b * 3 + c] = Math.round(sum[c] / n);
+  });
+  return palette;
+};
+
+interface OctreeNode {
+  r: number;
+  g: number;
+  b: number;
+  count: number;
+  leaf: boolean;
+  children: (OctreeNode | undefined)[];
+}
+
+/**
+ * Octree quantization: colours share nodes by their leading bits, and the deepest
+ * branches are folded into their parent until few enough leaves remain.
+ */
+const octree = (samples: Uint8Array, maxColors: number): Uint8Array => {
+  const reducible: OctreeNode[][] = Array.from({ length: OCTREE_DEPTH }, () => []);
+  let leaves = 0;
+  const createNode = (level: number): OctreeNode => {
+    const node: OctreeNode = { r: 0, g: 0, b: 0, count: 0, leaf: level === OCTREE_DEPTH, children: [] };
+    if (node.leaf) leaves++;
+    else reducible[level].push(node);
+    return node;
+  };
+  const root = createNode(0);
+
+  for (let i = 0; i < samples.length; i += 3) {
+    const r = samples[i], g = samples[i + 1], b = samples[i + 2];
+    let node = root;
+    for (let level = 0; !node.leaf; level++) {
+      const shift = 7 - level;
+      const child = (((r >> shift) & 1) << 2) | (((g >> shift) & 1) << 1) | ((b >> shift) & 1);
+      node = node.children[child] ||= createNode(level + 1);
+    }
+    node.r += r;
+    node.g += g;
+    node.b += b;
+    node.count++;
+  }
+
+  while (leaves > maxColors) {
+    let level = OCTREE_DEPTH - 1;
+    while (level >= 0 && reducible[level].length === 0) level--;
+    if (level < 0) break;
+    const node = reducible[level].pop()!;
+    let merged = 0;
+    for (const child of node.children) {
+      if (!child) continue;
+      node.r += child.r;
+      node.g += child.g;
+      node.b += child.b;
+      node.count += child.count;
+      merged++;
+    }
+    node.children = [];
+    node.leaf = true;
+    leaves -= merged - 1;
+  }
+
+  const colors: number[] = [];
+  const collect = (node: OctreeNode) => {
+    if (node.leaf) {
+      if (node.count > 0) colors.push(node.r / node.count, node.g / node.count, node.b / node.count);
+      return;
+    }
+    node.children.forEach(child => child && collect(child));
+  };
+  collect(root);
+  return Uint8Array.from(colors.map(Math.round));
+};
+
+/**
+ * Builds a palette of at most 255 colours from sampled RGB triplets.
+ */
+export const buildGifPalette = (samples: Uint8Array, quantizer: GifOptions['quantizer']): Uint8Array => {
+  if (samples.length === 0) return new Uint8Array(3);
+  return quantizer === 'octree' ? octree(samples, MAX_COLORS) : medianCut(samples, MAX_COLORS);
+};
+
+// Nearest palette entry, cached on 6-bit channels
+const createNearest = (palette: Uint8Array) => {
+  const cache = new Int16Array(1 << 18).fill(-1);
+  const size = palette.length / 3;
+  return (r: number, g: number, b: number): number => {
+    const key = ((r >> 2) << 12) | ((g >> 2) << 6) | (b >> 2);
+    let index = cache[key];
+    if (index < 0) {
+      let best = Infinity;
+      for (let p = 0; p < size; p++) {
+        const dr = r - palette[p * 3], dg = g - palette[p * 3 + 1], db = b - palette[p * 3 + 2];
+        const d = dr * dr * 2 + dg * dg * 4 + db * db * 3;
+        if (d < best) {
+          best = d;
+          index = p;
+        }
+      }
+      cache[key] = index;
+    }
+    return index;
+  };
+};
+
+/**
+ * Maps the opaque pixels of a rectangle to palette indices with the chosen dithering.
+ * Transparent pixels get `transparentIndex`.
+ */
+const indexPixels = (
+  data: Uint8ClampedArray,
+  stride: number,
+  rect: { left: number; top: number; width: number; height: number },
+  palette: Uint8Array,
+  transparentIndex: number,
+  dither: GifOptions['dither']
+): Uint8Array => {
+  const nearest = createNearest(palette);
+  const { left, top, width, height } = rect;
+  const out = new Uint8Array(width * height);
+  // Floyd–Steinberg carries the error of the current and the next row
+  let current = dither === 'floydSteinberg' ? new Float32Array((width + 2) * 3) : null;
+  let next = dither === 'floydSteinberg' ? new Float32Array((width + 2) * 3) : null;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = ((top + y) * stride + left + x) * 4;
+      const o = y * width + x;
+      if (data[i + 3] === 0) {
+        out[o] = transparentIndex;
+        continue;
+      }
+      let r = data[i], g = data[i + 1], b = data[i + 2];
+      if (dither === 'ordered') {
+        const offset = (BAYER_4X4[(y & 3) * 4 + (x & 3)] / 16 - 0.5) * ORDERED_SPREAD;
+        r += offset;
+        g += offset;
+        b += offset;
+      } else if (current) {
+        const e = (x + 1) * 3;
+        r += current[e];
+        g += current[e + 1];
+        b += current[e + 2];
+      }
+      r = Math.min(255, Math.max(0, Math.round(r)));
+      g = Math.min(255, Math.max(0, Math.round(g)));
+      b = Math.min(255, Math.max(0, Math.round(b)));
+
+      const index = nearest(r, g, b);
+      out[o] = index;
+
+      if (current && next) {
+        const e = (x + 1) * 3;
+        for (let c = 0; c < 3; c++) {
+          const err = (c === 0 ? r : c === 1 ? g : b) - palette[index * 3 + c];
+          current[e + 3 + c] += (err * 7) / 16;
+          next[e - 3 + c] += (err * 3) / 16;
+          next[e + c] += (err * 5) / 16;
+          next[e + 3 + c] += err / 16;
+        }
+      }
+    }
+    if (current && next) {
+      [current, next] = [next, current];
+      next.fill(0);
+    }
+  }
+  return out;
+};
+
+/**
+ * GIF-flavoured LZW with variable code sizes up to 12 bits, packed LSB first
+ * and split into sub-blocks of at most 255 bytes.
+ */
+const lzwEncode = (indices: Uint8Array, minCodeSize: number): Uint8Array => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  // Open-addressed by (prefix << 8 | suffix); a stamp marks entries from before the last clear
+  const codes = new Int16Array(1 << 20);
+  const stamps = new Uint32Array(1 << 20);
+  let stamp = 1;
+
+  const bytes: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      bytes.push(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices.length > 0 ? indices[0] : 0;
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    if (stamps[key] === stamp) {
+      prefix = codes[key];
+      continue;
+    }
+    emit(prefix);
+    if (nextCode < 4096) {
+      codes[key] = nextCode;
+      stamps[key] = stamp;
+      if (nextCode === 1 << codeSize && codeSize < 12) codeSize++;
+      nextCode++;
+    } else {
+      emit(clearCode);
+      stamp++;
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    }
+    prefix = k;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) bytes.push(bitBuffer & 0xff);
+
+  const out = new Uint8Array(bytes.length + Math.ceil(bytes.length / 255) + 1);
+  let o = 0;
+  for (let start = 0; start < bytes.length; start += 255) {
+    const block = bytes.slice(start, start + 255);
+    out[o++] = block.length;
+    out.set(block, o);
+    o += block.length;
+  }
+  out[o] = 0;
+  return out;
+};
+
+// Smallest power-of-two table that holds the palette, as the GIF size field (bits - 1 is stored)
+const tableBits = (colors: number) => Math.max(1, Math.ceil(Math.log2(Math.max(2, colors))));
+
+/**
+ * Quantizes, dithers and compresses one frame. Only the bounding box of its visible pixels is stored;
+ * the rest is cleared by the frame disposal. Pass `palette` to use a shared global palette,
+ * which must keep its last slot free for transparency.
+ */
+export const encodeGifFrame = (
+  source: Uint8ClampedArray,
+  width: number,
+  height: number,
+  options: GifOptions,
+  palette: Uint8Array | null
+): EncodedGifFrame => {
+  const data = flattenAlpha(source, options);
+
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0, i = 3; y < height; y++) {
+    for (let x = 0; x < width; x++, i += 4) {
+      if (data[i] === 0) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      maxY = y;
+    }
+  }
+  const empty = maxX < 0;
+  const rect = empty
+    ? { left: 0, top: 0, width: 1, height: 1 }
+    : { left: minX, top: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+
+  let hasTransparency = empty;
+  for (let y = 0; y < rect.height && !hasTransparency; y++) {
+    for (let x = 0; x < rect.width; x++) {
+      if (data[((rect.top + y) * width + rect.left + x) * 4 + 3] === 0) {
+        hasTransparency = true;
+        break;
+      }
+    }
+  }
+
+  const colors = palette || buildGifPalette(sampleGifColors([source], options), options.quantizer);
+  const colorCount = colors.length / 3;
+  // The transparent slot follows the colours, in the local table as in the global one
+  const transparentIndex = hasTransparency ? colorCount : -1;
+  const indices = indexPixels(data, width, rect, colors, Math.max(0, transparentIndex), options.dither);
+
+  const bits = tableBits(palette ? colorCount + 1 : colorCount + (hasTransparency ? 1 : 0));
+  let table: Uint8Array | null = null;
+  if (!palette) {
+    table = new Uint8Array(3 << bits);
+    table.set(colors);
+  }
+  const minCodeSize = Math.max(2, bits);
+
+  return {
+    ...rect,
+    palette: table,
+    transparentIndex,
+    minCodeSize,
+    data: lzwEncode(indices, minCodeSize),
+  };
+};
+
+/**
+ * Writes the GIF file. `delays` are in milliseconds per frame; `loopCount` 0 loops forever.
+ * Every frame uses disposal 2 (restore to background), so transparent areas never show the previous frame.
+ */
+export const assembleGif = (
+  frames: EncodedGifFrame[],
+  delays: number[],
+  width: number,
+  height: number,
+  loopCount: number,
+  globalPalette: Uint8Array | null
+): Blob => {
+  const parts: Uint8Array[] = [];
+  const word = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+
+  let globalTable: Uint8Array | null = null;
+  let globalBits = 0;
+  if (globalPalette) {
+    globalBits = tableBits(globalPalette.length / 3 + 1);
+    globalTable = new Uint8Array(3 << globalBits);
+    globalTable.set(globalPalette);
+  }
+
+  parts.push(new TextEncoder().encode('GIF89a'));
+  parts.push(Uint8Array.from([
+    ...word(width), ...word(height),
+    globalTable ? 0xf0 | (globalBits - 1) : 0x70,
+    0, // Background colour index
+    0, // Pixel aspect ratio
+  ]));
+  if (globalTable) parts.push(globalTable);
+
+  // NETSCAPE2.0 repeat count: 0 = forever, N = N extra passes; a single pass omits the block
+  if (loopCount !== 1) {
+    parts.push(Uint8Array.from([
+      0x21, 0xff, 0x0b, ...new TextEncoder().encode('NETSCAPE2.0'),
+      0x03, 0x01, ...word(loopCount === 0 ? 0 : loopCount - 1), 0x00,
+    ]));
+  }
+
+  // Centisecond delays, rounded on the running total so rounding errors do not add up
+  let elapsed = 0;
+  let written = 0;
+  frames.forEach((frame, i) => {
+    elapsed += delays[i];
+    const delay = Math.max(2, Math.round(elapsed / 10) - written);
+    written += delay;
+
+    const transparent = frame.transparentIndex >= 0;
+    parts.push(Uint8Array.from([
+      0x21, 0xf9, 0x04,
+      (2 << 2) | (transparent ? 1 : 0),
+      ...word(delay),
+      transparent ? frame.transparentIndex : 0,
+      0x00,
+    ]));
+
+    const localBits = frame.palette ? Math.log2(frame.palette.length / 3) : 0;
+    parts.push(Uint8Array.from([
+      0x2c,
+      ...word(frame.left), ...word(frame.top), ...word(frame.width), ...word(frame.height),
+      frame.palette ? 0x80 | (localBits - 1) : 0,
+    ]));
+    if (frame.palette) parts.push(frame.palette);
+    parts.push(Uint8Array.from([frame.minCodeSize]));
+    parts.push(frame.data);
+  });
+
+  parts.push(Uint8Array.from([0x3b]));
+  return new Blob(parts, { type: 'image/gif' });
+};
@@ -0,0 +1,192 @@
+import { GeneratedFrame, HistoryFrame, HistorySession, HistorySummary } from "../types";
+
+const DB_NAME = 'toonmotion';
+const DB_VERSION = 1;
+const STORE = 'sessions';
+
+// Oldest sessions beyond either limit are removed after every save
+export const HISTORY_MAX_ENTRIES = 50;
+const HISTORY_MAX_USAGE = 0.8; // Fraction of the origin's quota
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (!window.indexedDB) {
+        reject(new Error("IndexedDB is not available in this browser."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('updatedAt', 'updatedAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry after a failed open
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const runRequest = <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  return openDb().then(db => new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = run(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error || request.error);
+    tx.onabort = () => reject(tx.error || request.error);
+  }));
+};
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.code === 22);
+
+export const createSessionId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const estimateSize = (session: Omit<HistorySession, 'size'>) =>
+  (session.source?.blob.size || 0) +
+  session.frames.reduce((sum, f) => sum + f.blob.size, 0) +
+  session.rawOutputs.reduce((sum, raw) => sum + (raw?.size || 0), 0);
+
+/**
+ * Summaries of every stored session, newest first.
+ */
+export const listSessions = async (): Promise<HistorySummary[]> => {
+  const sessions = await runRequest<HistorySession[]>('readonly', store => store.getAll());
+  return sessions
+    .map(s => ({
+      id: s.id,
+      name: s.name,
+      createdAt: s.createdAt,
+      updatedAt: s.updatedAt,
+      frameCount: s.frames.length,
+      size: s.size,
+      thumbnail: s.frames[0]?.blob,
+    }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadSession = async (id: string): Promise<HistorySession | undefined> => {
+  return runRequest<HistorySession | undefined>('readonly', store => store.get(id));
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(id));
+};
+
+/**
+ * Removes the oldest sessions until at most `maxEntries` remain and usage is under the quota threshold.
+ * `keepId` is never removed. Returns how many sessions were deleted.
+ */
+export const pruneHistory = async (maxEntries: number = HISTORY_MAX_ENTRIES, keepId?: string): Promise<number> => {
+  const oldestFirst = (await listSessions()).reverse().filter(s => s.id !== keepId);
+  const keepSlots = keepId ? maxEntries - 1 : maxEntries;
+  let removed = 0;
+
+  while (oldestFirst.length > Math.max(0, keepSlots)) {
+    await deleteSession(oldestFirst.shift()!.id);
+    removed++;
+  }
+
+  if (navigator.storage?.estimate) {
+    let { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    while (quota > 0 && usage > quota * HISTORY_MAX_USAGE && oldestFirst.length > 0) {
+      const oldest = oldestFirst.shift()!;
+      await deleteSession(oldest.id);
+      usage -= oldest.size;
+      removed++;
+    }
+  }
+  return removed;
+};
+
+/**
+ * Stores or updates a session, keeping its original creation time.
+ * When the quota is hit, the oldest sessions are deleted one at a time and the save is retried.
+ */
+export const saveSession = async (session: Omit<HistorySession, 'createdAt' | 'updatedAt' | 'size'>): Promise<void> => {
+  const existing = await loadSession(session.id);
+  const now = Date.now();
+  const record: HistorySession = {
+    ...session,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    size: estimateSize({ ...session, createdAt: 0, updatedAt: 0 }),
+  };
+
+  // Ask for storage the browser will not evict under pressure; refusal is fine
+  navigator.storage?.persist?.().catch(() => undefined);
+
+  for (;;) {
+    try {
+      await runRequest('readwrite', store => store.put(record));
+      break;
+    } catch (error) {
+      if (!isQuotaError(error)) throw error;
+      const oldest = (await listSessions()).reverse().find(s => s.id !== record.id);
+      if (!oldest) throw new Error("浏览器存储空间不足，无法保存历史记录。");
+      await deleteSession(oldest.id);
+    }
+  }
+
+  await pruneHistory(HISTORY_MAX_ENTRIES, record.id);
+};
+
+/**
+ * Copies a session under a new id.
+ */
+export const duplicateSession = async (id: string): Promise<string | undefined> => {
+  const session = await loadSession(id);
+  if (!session) return undefined;
+
+  const copy = { ...session, id: createSessionId(), name: `${session.name}（副本）` };
+  await saveSession(copy);
+  return copy.id;
+};
+
+export const framesToHistory = (frames: GeneratedFrame[]): HistoryFrame[] =>
+  frames.map(f => ({
+    blob: f.blob,
+    width: f.width || 0,
+    height: f.height || 0,
+    hold: f.hold,
+    registration: f.registration,
+  }));
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error("Failed to read stored frame."));
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * Rebuilds full frames, pixel buffers included, from stored PNGs.
+ */
+export const framesFromHistory = async (frames: HistoryFrame[]): Promise<GeneratedFrame[]> => {
+  return Promise.all(frames.map(async (f, index) => {
+    const bitmap = await createImageBitmap(f.blob);
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+
+    return {
+      blob: f.blob,
+      dataUrl: URL.createObjectURL(f.blob),
+      index,
+      pixelBuffer: ctx.getImageData(0, 0, canvas.width, canvas.height).data.buffer,
+      width: canvas.width,
+      height: canvas.height,
+      hold: f.hold,
+      registration: f.registration,
+    };
+  }));
+};
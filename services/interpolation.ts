@@ -0,0 +1,343 @@
+import { GeneratedFrame, InterpolationOptions, TimingOptions } from "../types";
+
+export const DEFAULT_INTERPOLATION: InterpolationOptions = {
+  method: 'crossfade',
+  factor: 2,
+  targetFps: 0,
+};
+
+// Block matching runs on a half-resolution copy; sizes below are in full-resolution pixels
+const BLOCK_SIZE = 16;
+const SEARCH_RADIUS = 16;
+
+export interface InterpolationResult {
+  frames: GeneratedFrame[];
+  fps: number;
+}
+
+interface Sample {
+  from: number; // Source frame index
+  to: number; // Frame it moves toward, -1 for none
+  t: number; // 0 = exactly `from`, toward 1 = close to `to`
+}
+
+/**
+ * Alpha-aware cross-fade: colours are mixed premultiplied, so a pixel that is transparent
+ * in one frame takes its colour from the other instead of fading through black.
+ */
+const crossfade = (a: Uint8ClampedArray, b: Uint8ClampedArray, t: number): Uint8ClampedArray => {
+  const out = new Uint8ClampedArray(a.length);
+  for (let p = 0; p < a.length; p += 4) {
+    const wa = a[p + 3] * (1 - t);
+    const wb = b[p + 3] * t;
+    const alpha = wa + wb;
+    if (alpha < 0.5) continue;
+    out[p] = (a[p] * wa + b[p] * wb) / alpha;
+    out[p + 1] = (a[p + 1] * wa + b[p + 1] * wb) / alpha;
+    out[p + 2] = (a[p + 2] * wa + b[p + 2] * wb) / alpha;
+    out[p + 3] = alpha;
+  }
+  return out;
+};
+
+interface Features {
+  luma: Uint8Array; // Alpha-weighted luminance
+  alpha: Uint8Array;
+  width: number;
+  height: number;
+}
+
+// Half-resolution luminance and alpha used for matching
+const extractFeatures = (data: Uint8ClampedArray, width: number, height: number): Features => {
+  const fw = Math.max(1, width >> 1);
+  const fh = Math.max(1, height >> 1);
+  const luma = new Uint8Array(fw * fh);
+  const alpha = new Uint8Array(fw * fh);
+
+  for (let y = 0; y < fh; y++) {
+    for (let x = 0; x < fw; x++) {
+      let l = 0;
+      let a = 0;
+      for (let dy = 0; dy < 2; dy++) {
+        for (let dx = 0; dx < 2; dx++) {
+          const p = (Math.min(height - 1, y * 2 + dy) * width + Math.min(width - 1, x * 2 + dx)) * 4;
+          const pa = data[p + 3];
+          l += ((0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2]) * pa) / 255;
+          a += pa;
+        }
+      }
+      luma[y * fw + x] = l / 4;
+      alpha[y * fw + x] = a / 4;
+    }
+  }
+  return { luma, alpha, width: fw, height: fh };
+};
+
+interface BlockMatches {
+  vectors: Int16Array; // dx, dy per block
+  empty: Uint8Array; // 1 for fully transparent blocks, which are not matched
+  cols: number;
+}
+
+/**
+ * For each block of `src`, the offset (in full-resolution pixels) of the best match in `dst`.
+ * The zero vector wins ties, so static and empty areas stay put.
+ */
+const matchBlocks = (src: Features, dst: Features): BlockMatches => {
+  const block = BLOCK_SIZE >> 1;
+  const radius = SEARCH_RADIUS >> 1;
+  const cols = Math.ceil(src.width / block);
+  const rows = Math.ceil(src.height / block);
+  const vectors = new Int16Array(cols * rows * 2);
+  const empty = new Uint8Array(cols * rows);
+
+  // Outside `dst` counts as transparent, so blocks at the border can still match across it
+  const sad = (x0: number, y0: number, w: number, h: number, dx: number, dy: number, limit: number) => {
+    let sum = 0;
+    for (let y = y0; y < y0 + h; y++) {
+      const s = y * src.width;
+      const inside = y + dy >= 0 && y + dy < dst.height;
+      const d = (y + dy) * dst.width + dx;
+      for (let x = x0; x < x0 + w; x++) {
+        if (inside && x + dx >= 0 && x + dx < dst.width) {
+          sum += Math.abs(src.luma[s + x] - dst.luma[d + x]) + Math.abs(src.alpha[s + x] - dst.alpha[d + x]);
+        } else {
+          sum += src.luma[s + x] + src.alpha[s + x];
+        }
+      }
+      if (sum >= limit) return sum;
+    }
+    return sum;
+  };
+
+  for (let by = 0; by < rows; by++) {
+    for (let bx = 0; bx < cols; bx++) {
+      const x0 = bx * block;
+      const y0 = by * block;
+      const w = Math.min(block, src.width - x0);
+      const h = Math.min(block, src.height - y0);
+
+      let opaque = false;
+      for (let y = y0; y < y0 + h && !opaque; y++) {
+        for (let x = x0; x < x0 + w; x++) {
+          if (src.alpha[y * src.width + x] > 0) { opaque = true; break; }
+        }
+      }
+      if (!opaque) {
+        empty[by * cols + bx] = 1;
+        continue;
+      }
+
+      let best = sad(x0, y0, w, h, 0, 0, Infinity);
+      let bestX = 0;
+      let bestY = 0;
+      for (let dy = -radius; dy <= radius && best > 0; dy++) {
+        for (let dx = -radius; dx <= radius; dx++) {
+          if (dx === 0 && dy === 0) continue;
+          const score = sad(x0, y0, w, h, dx, dy, best);
+          if (score < best) {
+            best = score;
+            bestX = dx;
+            bestY = dy;
+          }
+        }
+      }
+      const v = (by * cols + bx) * 2;
+      vectors[v] = bestX * 2;
+      vectors[v + 1] = bestY * 2;
+    }
+  }
+  return { vectors, empty, cols };
+};
+
+/**
+ * Motion-compensated in-between: every block of both frames is moved part of the way along its
+ * matched vector and the two views are blended there. Pixels no block reaches are cross-faded
+ * where both frames are opaque and left transparent otherwise.
+ */
+const motionInterpolate = (
+  a: Uint8ClampedArray,
+  b: Uint8ClampedArray,
+  width: number,
+  height: number,
+  t: number
+): Uint8ClampedArray => {
+  const featuresA = extractFeatures(a, width, height);
+  const featuresB = extractFeatures(b, width, height);
+  const forward = matchBlocks(featuresA, featuresB);
+  const backward = matchBlocks(featuresB, featuresA);
+
+  const acc = new Float32Array(width * height * 4); // Premultiplied colour and alpha
+  const weight = new Float32Array(width * height);
+
+  const deposit = (
+    { vectors, empty, cols }: BlockMatches,
+    // Block positions are in `base`; `other` is where the matched content sits
+    base: Uint8ClampedArray,
+    other: Uint8ClampedArray,
+    baseWeight: number,
+    travel: number // Fraction of the vector the block has moved at time t
+  ) => {
+    for (let v = 0; v < vectors.length; v += 2) {
+      const block = v / 2;
+      if (empty[block]) continue;
+      const vx = vectors[v];
+      const vy = vectors[v + 1];
+      const x0 = (block % cols) * BLOCK_SIZE;
+      const y0 = Math.floor(block / cols) * BLOCK_SIZE;
+      const ox = Math.round(vx * travel);
+      const oy = Math.round(vy * travel);
+
+      for (let y = y0; y < Math.min(height, y0 + BLOCK_SIZE); y++) {
+        const ty = y + oy;
+        const my = Math.min(height - 1, Math.max(0, y + vy));
+        if (ty < 0 || ty >= height) continue;
+        for (let x = x0; x < Math.min(width, x0 + BLOCK_SIZE); x++) {
+          const tx = x + ox;
+          if (tx < 0 || tx >= width) continue;
+          const mx = Math.min(width - 1, Math.max(0, x + vx));
+          const p = (y * width + x) * 4;
+          // Only a frame's own content moves; the other frame's content arrives through its own pass
+          if (base[p + 3] === 0) continue;
+          const m = (my * width + mx) * 4;
+          const wa = (base[p + 3] / 255) * baseWeight;
+          const wb = (other[m + 3] / 255) * (1 - baseWeight);
+          const alpha = wa + wb;
+
+          const q = ty * width + tx;
+          acc[q * 4] += base[p] * wa + other[m] * wb;
+          acc[q * 4 + 1] += base[p + 1] * wa + other[m + 1] * wb;
+          acc[q * 4 + 2] += base[p + 2] * wa + other[m + 2] * wb;
+          acc[q * 4 + 3] += alpha;
+          weight[q]++;
+        }
+      }
+    }
+  };
+
+  deposit(forward, a, b, 1 - t, t);
+  deposit(backward, b, a, t, 1 - t);
+
+  const fallback = crossfade(a, b, t);
+  const out = new Uint8ClampedArray(a.length);
+  for (let q = 0; q < weight.length; q++) {
+    const p = q * 4;
+    if (weight[q] === 0) {
+      if (a[p + 3] > 0 && b[p + 3] > 0) {
+        out[p] = fallback[p];
+        out[p + 1] = fallback[p + 1];
+        out[p + 2] = fallback[p + 2];
+        out[p + 3] = fallback[p + 3];
+      }
+      continue;
+    }
+    const alpha = acc[p + 3];
+    out[p] = acc[p] / alpha;
+    out[p + 1] = acc[p + 1] / alpha;
+    out[p + 2] = acc[p + 2] / alpha;
+    out[p + 3] = (alpha / weight[q]) * 255;
+  }
+  return out;
+};
+
+/**
+ * Where the output samples fall on the source timeline. A frame held for several ticks stays
+ * still and only moves toward the next frame during its last tick. Looping forward playback
+ * also bridges the last frame back to the first.
+ */
+const planSamples = (frames: GeneratedFrame[], fps: number, outFps: number, wrap: boolean): Sample[] => {
+  const holds = frames.map(f => f.hold || 1);
+  const totalTicks = holds.reduce((sum, h) => sum + h, 0);
+  const ratio = outFps / fps;
+  const count = Math.max(1, Math.round(totalTicks * ratio));
+  const samples: Sample[] = [];
+
+  let from = 0;
+  let start = 0;
+  for (let j = 0; j < count; j++) {
+    const tick = j / ratio;
+    while (from < frames.length - 1 && tick >= start + holds[from] - 1e-6) {
+      start += holds[from];
+      from++;
+    }
+    const to = from + 1 < frames.length ? from + 1 : wrap ? 0 : -1;
+    const t = to < 0 ? 0 : Math.max(0, tick - start - (holds[from] - 1));
+    samples.push({ from, to, t: t < 1e-3 ? 0 : t });
+  }
+  return samples;
+};
+
+const toFrame = async (data: Uint8ClampedArray, width: number, height: number, template: GeneratedFrame): Promise<GeneratedFrame> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext('2d')!.putImageData(new ImageData(data, width, height), 0, 0);
+  const blob = await new Promise<Blob | null>(r => canvas.toBlob(r, 'image/png'));
+  if (!blob) throw new Error("Failed to encode in-between frame.");
+
+  return {
+    blob,
+    dataUrl: URL.createObjectURL(blob),
+    index: template.index,
+    pixelBuffer: data.buffer,
+    width,
+    height,
+    registration: template.registration,
+  };
+};
+
+/**
+ * Adds in-between frames in the browser, without extra model calls.
+ * Returns the new frame list and the frame rate that keeps the loop's duration.
+ */
+export const interpolateFrames = async (
+  frames: GeneratedFrame[],
+  fps: number,
+  timing: TimingOptions,
+  options: InterpolationOptions = DEFAULT_INTERPOLATION,
+  onProgress?: (done: number, total: number) => void
+): Promise<InterpolationResult> => {
+  const outFps = options.targetFps > 0 ? options.targetFps : fps * Math.max(1, options.factor);
+  if (frames.length < 2 || outFps <= fps) return { frames, fps };
+
+  // Only a forward loop that actually repeats blends the last frame back into the first
+  const samples = planSamples(frames, fps, outFps, timing.playback === 'forward' && timing.loopCount !== 1);
+  const blended = samples.filter(s => s.t > 0).length;
+  const result: GeneratedFrame[] = [];
+  let done = 0;
+
+  for (const sample of samples) {
+    const previous = result[result.length - 1];
+    if (sample.t === 0) {
+      // Consecutive samples of the same source frame become one longer hold
+      if (previous && previous.blob === frames[sample.from].blob) {
+        previous.hold = (previous.hold || 1) + 1;
+      } else {
+        result.push({ ...frames[sample.from], hold: 1 });
+      }
+      continue;
+    }
+
+    const a = frames[sample.from];
+    const b = frames[sample.to];
+    if (!a.pixelBuffer || !b.pixelBuffer || !a.width || !a.height || a.width !== b.width || a.height !== b.height) {
+      // Frames of different sizes cannot be blended; hold the nearer one instead
+      const nearest = sample.t < 0.5 ? a : b;
+      if (previous?.blob === nearest.blob) previous.hold = (previous.hold || 1) + 1;
+      else result.push({ ...nearest, hold: 1 });
+    } else {
+      const pixelsA = new Uint8ClampedArray(a.pixelBuffer);
+      const pixelsB = new Uint8ClampedArray(b.pixelBuffer);
+      const data = options.method === 'motion'
+        ? motionInterpolate(pixelsA, pixelsB, a.width, a.height, sample.t)
+        : crossfade(pixelsA, pixelsB, sample.t);
+      result.push(await toFrame(data, a.width, a.height, a));
+    }
+
+    onProgress?.(++done, blended);
+    // Keep the page responsive between frames
+    await new Promise(r => setTimeout(r, 0));
+  }
+
+  return { frames: result.map((frame, i) => ({ ...frame, index: i })), fps: outFps };
+};
@@ -0,0 +1,67 @@
+import { FrameProvider } from "../types";
+
+// Extra canvas around the character so transforms stay clear of the processor's safety crop
+const PADDING_RATIO = 0.3;
+
+const loadReference = (imageBase64: string, mimeType: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load reference image."));
+    img.src = `data:${mimeType};base64,${imageBase64}`;
+  });
+};
+
+/**
+ * Synthesizes a frame offline by transforming the reference image.
+ * Combines a bob, squash & stretch and a gentle sway over one loop, so the
+ * same inputs always produce the same frame.
+ */
+const generateLocalFrame = async (
+  imageBase64: string,
+  mimeType: string,
+  _prompt: string,
+  index: number,
+  total: number
+): Promise<string> => {
+  const img = await loadReference(imageBase64, mimeType);
+  const w = img.naturalWidth;
+  const h = img.naturalHeight;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(w * (1 + PADDING_RATIO * 2));
+  canvas.height = Math.round(h * (1 + PADDING_RATIO * 2));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context not available");
+
+  // Match the white background the Gemini prompt asks for
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  const phase = (index / Math.max(1, total)) * Math.PI * 2;
+  const bob = -Math.abs(Math.sin(phase)) * h * 0.08;
+  const squash = Math.cos(phase * 2) * 0.06;
+  const scaleX = 1 + squash;
+  const scaleY = 1 - squash;
+  const rotation = Math.sin(phase) * (5 * Math.PI / 180);
+
+  // Transform around the feet so squash keeps the character grounded
+  const footX = canvas.width / 2;
+  const footY = (canvas.height + h) / 2;
+  ctx.translate(footX, footY + bob);
+  ctx.rotate(rotation);
+  ctx.scale(scaleX, scaleY);
+  ctx.drawImage(img, -w / 2, -h, w, h);
+
+  const blob = await new Promise<Blob | null>(r => canvas.toBlob(r, 'image/png'));
+  if (!blob) throw new Error("Failed to encode local frame.");
+  return URL.createObjectURL(blob);
+};
+
+export const localProvider: FrameProvider = {
+  id: 'local',
+  name: '本地模拟',
+  generateFrame: generateLocalFrame,
+  checkApiKey: async () => true,
+  selectApiKey: async () => {},
+};
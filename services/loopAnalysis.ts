@@ -0,0 +1,110 @@
+import { GeneratedFrame, LoopAnalysis, LoopStep, TimingOptions } from "../types";
+
+// Frames are compared on a grid of at most this many samples per side
+const SAMPLE_GRID = 96;
+
+const DUPLICATE_MAX = 0.01; // Steps below this look like the same drawing twice
+const POP_MIN = 0.08; // Steps below this never count as a pop
+const POP_RATIO = 2; // ... otherwise a pop is this many times the typical step
+const SEAMLESS_RATIO = 1.5; // The closing step may be this much larger than a typical one
+
+// Trimming must keep at least this share of the frames, and never fewer than 3
+const MIN_TRIM_SHARE = 0.5;
+
+type Signature = Float32Array | null; // Premultiplied RGBA samples, null when the frame has no pixels
+
+const signature = (frame: GeneratedFrame): Signature => {
+  if (!frame.pixelBuffer || !frame.width || !frame.height) return null;
+  const data = new Uint8ClampedArray(frame.pixelBuffer);
+  const step = Math.max(1, Math.ceil(Math.max(frame.width, frame.height) / SAMPLE_GRID));
+  const cols = Math.ceil(frame.width / step);
+  const rows = Math.ceil(frame.height / step);
+  const samples = new Float32Array(cols * rows * 4);
+
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < cols; x++) {
+      const p = ((y * step) * frame.width + x * step) * 4;
+      const s = (y * cols + x) * 4;
+      const a = data[p + 3] / 255;
+      samples[s] = (data[p] / 255) * a;
+      samples[s + 1] = (data[p + 1] / 255) * a;
+      samples[s + 2] = (data[p + 2] / 255) * a;
+      samples[s + 3] = a;
+    }
+  }
+  return samples;
+};
+
+/**
+ * Mean difference over the pixels either frame covers, so the score does not shrink
+ * with the amount of empty canvas around the character.
+ */
+const difference = (a: Signature, b: Signature): number => {
+  if (!a || !b || a.length !== b.length) return 1;
+  let sum = 0;
+  let covered = 0;
+  for (let s = 0; s < a.length; s += 4) {
+    if (a[s + 3] === 0 && b[s + 3] === 0) continue;
+    covered++;
+    sum += (Math.abs(a[s] - b[s]) + Math.abs(a[s + 1] - b[s + 1]) + Math.abs(a[s + 2] - b[s + 2]) + Math.abs(a[s + 3] - b[s + 3])) / 4;
+  }
+  return covered === 0 ? 0 : sum / covered;
+};
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const classify = (score: number, typical: number): LoopStep['issue'] => {
+  if (score < DUPLICATE_MAX) return 'duplicate';
+  if (score > Math.max(POP_MIN, typical * POP_RATIO)) return 'pop';
+  return undefined;
+};
+
+/**
+ * Scores every neighbouring pair and, for forward loops, the jump from the last frame back to the first.
+ * Also looks for a sub-range whose ends join more smoothly than the whole sequence.
+ */
+export const analyzeLoop = (frames: GeneratedFrame[], timing: TimingOptions): LoopAnalysis => {
+  const n = frames.length;
+  const signatures = frames.map(signature);
+  const diff = (i: number, j: number) => difference(signatures[i], signatures[j]);
+
+  const scores = Array.from({ length: Math.max(0, n - 1) }, (_, i) => diff(i, i + 1));
+  const typicalStep = median(scores);
+  const steps: LoopStep[] = scores.map((score, i) => ({ from: i, to: i + 1, score, issue: classify(score, typicalStep) }));
+
+  if (n < 3 || timing.playback === 'pingpong') {
+    return { steps, typicalStep, seamless: steps.every(s => s.issue !== 'pop') };
+  }
+
+  const closingScore = diff(n - 1, 0);
+  const closing: LoopStep = { from: n - 1, to: 0, score: closingScore, issue: classify(closingScore, typicalStep) };
+  const seamless = !closing.issue && closingScore <= Math.max(DUPLICATE_MAX, typicalStep * SEAMLESS_RATIO);
+
+  // A good loop point makes the jump back look like an ordinary step; longer ranges win ties
+  const cost = (score: number, length: number) =>
+    Math.abs(score - typicalStep) / Math.max(typicalStep, DUPLICATE_MAX) + 0.5 * (n - length) / n;
+
+  let bestTrim: LoopAnalysis['bestTrim'];
+  if (!seamless) {
+    const minLength = Math.max(3, Math.ceil(n * MIN_TRIM_SHARE));
+    let bestCost = cost(closingScore, n);
+    for (let start = 0; start <= n - minLength; start++) {
+      for (let end = start + minLength - 1; end < n; end++) {
+        if (start === 0 && end === n - 1) continue;
+        const score = diff(end, start);
+        const c = cost(score, end - start + 1);
+        if (c < bestCost && !classify(score, typicalStep)) {
+          bestCost = c;
+          bestTrim = { start, end, score };
+        }
+      }
+    }
+  }
+
+  return { steps, closing, typicalStep, seamless, bestTrim };
+};
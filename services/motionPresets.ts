@@ -0,0 +1,237 @@
+import { MotionPreset, TimingOptions, UserConfig } from "../types";
+import { DEFAULT_TIMING } from "./timing";
+
+const STORAGE_KEY = 'toonmotion.motionPresets';
+const PRESET_FORMAT = 'toonmotion-motion-preset';
+const PRESET_VERSION = 1;
+
+export const MOTION_PRESET_EXTENSION = '.motion.json';
+
+const loop = (easing: TimingOptions['easing'] = 'linear'): TimingOptions => ({ ...DEFAULT_TIMING, easing });
+
+export const BUILT_IN_MOTION_PRESETS: MotionPreset[] = [
+  {
+    id: 'idle',
+    name: '待机呼吸',
+    action: 'standing idle, breathing calmly',
+    poses: [
+      'Neutral standing pose, arms relaxed at the sides, chest at rest.',
+      'Inhaling: chest and shoulders rise slightly, head lifts a tiny bit.',
+      'Full breath in: chest and shoulders at their highest point.',
+      'Exhaling: shoulders settle halfway back down.',
+    ],
+    frameCount: 4,
+    fps: 6,
+    timing: { ...DEFAULT_TIMING, playback: 'pingpong', easing: 'easeInOut' },
+    builtIn: true,
+  },
+  {
+    id: 'walk',
+    name: '走路循环',
+    action: 'walking in place, seen from the front',
+    poses: [
+      'Contact: left foot forward touching the ground, right foot back, right arm swings forward.',
+      'Down: weight on the left leg, knee bent, body at its lowest point.',
+      'Passing: right leg passes the left, body rising, arms at the sides.',
+      'Contact: right foot forward touching the ground, left foot back, left arm swings forward.',
+      'Down: weight on the right leg, knee bent, body at its lowest point.',
+      'Passing: left leg passes the right, body rising, arms at the sides.',
+    ],
+    frameCount: 6,
+    fps: 8,
+    timing: loop(),
+    builtIn: true,
+  },
+  {
+    id: 'run',
+    name: '奔跑',
+    action: 'running energetically in place',
+    poses: [
+      'Left foot strikes the ground, body leaning forward, right arm pumped forward.',
+      'Pushing off with the left leg, right knee driving up high.',
+      'Airborne, both feet off the ground, legs split wide.',
+      'Right foot strikes the ground, body leaning forward, left arm pumped forward.',
+      'Pushing off with the right leg, left knee driving up high.',
+      'Airborne, both feet off the ground, legs split wide the other way.',
+    ],
+    frameCount: 6,
+    fps: 12,
+    timing: loop(),
+    builtIn: true,
+  },
+  {
+    id: 'jump',
+    name: '跳跃',
+    action: 'jumping up happily',
+    poses: [
+      'Standing ready, feet together.',
+      'Anticipation: deep crouch, knees bent, arms swung back.',
+      'Launch: legs extending, arms swinging up, heels leaving the ground.',
+      'Peak of the jump, body stretched, arms raised high, feet tucked.',
+      'Falling, legs reaching down toward the ground.',
+      'Landing: knees bent to absorb the impact, arms forward for balance.',
+    ],
+    frameCount: 6,
+    fps: 10,
+    timing: loop('holdKeys'),
+    builtIn: true,
+  },
+  {
+    id: 'wave',
+    name: '挥手',
+    action: 'waving hello with the right hand',
+    poses: [
+      'Standing, right arm starting to lift.',
+      'Right arm raised, open hand beside the head, palm facing forward.',
+      'Hand tilted outward to the right.',
+      'Hand tilted inward to the left.',
+    ],
+    frameCount: 6,
+    fps: 8,
+    timing: loop(),
+    builtIn: true,
+  },
+  {
+    id: 'nod',
+    name: '点头',
+    action: 'nodding in agreement',
+    poses: [
+      'Head level, looking forward, friendly expression.',
+      'Head tilted down, chin toward the chest, eyes half closed.',
+      'Head back up and level.',
+      'Head tilted down again, slightly less than before.',
+    ],
+    frameCount: 4,
+    fps: 6,
+    timing: loop('easeInOut'),
+    builtIn: true,
+  },
+  {
+    id: 'laugh',
+    name: '大笑',
+    action: 'laughing out loud',
+    poses: [
+      'Big smile, eyes squeezed shut, mouth wide open, shoulders up.',
+      'Leaning back slightly, head tilted up, mouth open laughing.',
+      'Body shaking forward, one hand on the belly.',
+      'Leaning back again, shoulders bouncing, mouth open laughing.',
+    ],
+    frameCount: 4,
+    fps: 10,
+    timing: loop(),
+    builtIn: true,
+  },
+  {
+    id: 'cry',
+    name: '哭泣',
+    action: 'crying sadly',
+    poses: [
+      'Sad face, eyebrows raised in the middle, tears welling up.',
+      'Both hands rubbing the eyes, shoulders hunched.',
+      'Head tilted up wailing, mouth open, tears streaming down.',
+      'Shoulders shaking, sobbing, tears dripping from the chin.',
+    ],
+    frameCount: 4,
+    fps: 6,
+    timing: loop(),
+    builtIn: true,
+  },
+];
+
+/**
+ * Pose for frame `index` of `total`. Presets with fewer poses than frames hold each pose
+ * for an equal share of the frames. Empty entries mean the frame has no pose of its own.
+ */
+export const poseForFrame = (poses: string[] | undefined, index: number, total: number): string | undefined => {
+  if (!poses || poses.length === 0) return undefined;
+  return poses[Math.min(poses.length - 1, Math.floor((index * poses.length) / Math.max(1, total)))] || undefined;
+};
+
+export const applyMotionPreset = (config: UserConfig, preset: MotionPreset): UserConfig => ({
+  ...config,
+  prompt: preset.action,
+  poses: preset.poses,
+  frameCount: preset.frameCount,
+  fps: preset.fps,
+  timing: { ...preset.timing },
+});
+
+const isTiming = (value: any): value is TimingOptions =>
+  typeof value === 'object' && value !== null &&
+  ['forward', 'pingpong'].includes(value.playback) &&
+  Number.isInteger(value.loopCount) && value.loopCount >= 0 &&
+  ['linear', 'easeIn', 'easeOut', 'easeInOut', 'holdKeys'].includes(value.easing);
+
+/**
+ * Checks an untrusted preset, e.g. from a shared file, and returns a clean copy.
+ */
+const validatePreset = (value: any): Omit<MotionPreset, 'id'> => {
+  if (typeof value !== 'object' || value === null) throw new Error("Invalid motion preset.");
+  if (typeof value.name !== 'string' || !value.name.trim()) throw new Error("Invalid motion preset: missing name.");
+  if (typeof value.action !== 'string') throw new Error("Invalid motion preset: missing action.");
+  if (!Array.isArray(value.poses) || value.poses.length === 0 || value.poses.some((p: unknown) => typeof p !== 'string')) {
+    throw new Error("Invalid motion preset: poses must be a non-empty list of text.");
+  }
+  if (!Number.isInteger(value.frameCount) || value.frameCount < 1) throw new Error("Invalid motion preset: bad frame count.");
+  if (typeof value.fps !== 'number' || value.fps <= 0) throw new Error("Invalid motion preset: bad fps.");
+
+  return {
+    name: value.name.trim(),
+    action: value.action,
+    poses: value.poses,
+    frameCount: value.frameCount,
+    fps: value.fps,
+    timing: isTiming(value.timing) ? value.timing : DEFAULT_TIMING,
+  };
+};
+
+export const createPresetId = () => `custom-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+/**
+ * The user's own presets. Unreadable entries are dropped rather than breaking the list.
+ */
+export const loadCustomPresets = (): MotionPreset[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    if (!Array.isArray(stored)) return [];
+    return stored.flatMap(item => {
+      try {
+        return [{ ...validatePreset(item), id: typeof item.id === 'string' ? item.id : createPresetId() }];
+      } catch {
+        return [];
+      }
+    });
+  } catch {
+    return [];
+  }
+};
+
+export const saveCustomPresets = (presets: MotionPreset[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets.map(({ builtIn, ...preset }) => preset)));
+};
+
+/**
+ * Wraps a preset in a small versioned JSON document for sharing.
+ */
+export const createMotionPresetFile = (preset: MotionPreset): Blob => {
+  const { id, builtIn, ...shared } = preset;
+  return new Blob(
+    [JSON.stringify({ format: PRESET_FORMAT, version: PRESET_VERSION, preset: shared }, null, 2)],
+    { type: 'application/json' }
+  );
+};
+
+/**
+ * Reads a shared preset file. The preset gets a fresh id so it never overwrites an existing one.
+ */
+export const parseMotionPresetFile = (text: string): MotionPreset => {
+  let doc: any;
+  try {
+    doc = JSON.parse(text);
+  } catch {
+    throw new Error("Invalid motion preset file: not valid JSON.");
+  }
+  if (doc?.format !== PRESET_FORMAT) throw new Error("Invalid motion preset file: not a ToonMotion preset.");
+  if (doc.version > PRESET_VERSION) throw new Error(`This preset was saved by a newer version of ToonMotion (format v${doc.version}).`);
+  return { ...validatePreset(doc.preset), id: createPresetId() };
+};
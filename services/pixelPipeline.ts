@@ -0,0 +1,373 @@
+import { BackgroundRemovalOptions, ColorStabilizationOptions, GifOptions } from "../types";
+import { measureColorDrift, ReferenceColors, stabilizePixels } from "./colorStabilizer";
+import { buildGifPalette, EncodedGifFrame, encodeGifFrame } from "./gifEncoder";
+
+/**
+ * Pixel work shared by the frame workers and the main-thread fallback.
+ * Nothing in here may touch the DOM: canvases are OffscreenCanvas whenever it exists.
+ */
+
+// How many pixels deep the soft edge band may reach into the character
+const EDGE_DEPTH = 2;
+
+// Pixels above this alpha count towards the bounding box
+const BOX_ALPHA = 20;
+
+export interface Placement {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CleanedPixels {
+  pixels: Uint8ClampedArray; // The cropped character, width × height RGBA
+  width: number;
+  height: number;
+  left: number;
+  top: number;
+  sourceWidth: number;
+  sourceHeight: number;
+  centroidX: number;
+  feetX: number;
+  touchesMargin: boolean; // A silhouette running into the safety margin was most likely cut off by the model
+}
+
+export interface EncodedFrame {
+  pixels: Uint8ClampedArray;
+  blob: Blob;
+  colorDrift?: number;
+}
+
+export type PixelTask =
+  | { type: 'clean'; url: string; background: BackgroundRemovalOptions }
+  | {
+      type: 'compose';
+      source: { pixels: Uint8ClampedArray; width: number; height: number };
+      placement: Placement;
+      targetWidth: number;
+      targetHeight: number;
+      referenceColors: ReferenceColors | null;
+      color: ColorStabilizationOptions;
+    }
+  | {
+      type: 'encode';
+      pixels: Uint8ClampedArray;
+      width: number;
+      height: number;
+      referenceColors: ReferenceColors | null;
+      color: ColorStabilizationOptions;
+    }
+  | { type: 'gifPalette'; samples: Uint8Array; quantizer: GifOptions['quantizer'] }
+  | {
+      type: 'gifFrame';
+      pixels: Uint8ClampedArray;
+      width: number;
+      height: number;
+      options: GifOptions;
+      palette: Uint8Array | null; // Shared global palette, or null to build one for the frame
+    };
+
+export interface PixelTaskResults {
+  clean: CleanedPixels | null; // null when no character was found
+  compose: EncodedFrame;
+  encode: EncodedFrame;
+  gifPalette: Uint8Array;
+  gifFrame: EncodedGifFrame;
+}
+
+type AnyCanvas = OffscreenCanvas | HTMLCanvasElement;
+
+const createCanvas = (width: number, height: number): AnyCanvas => {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+const context2d = (canvas: AnyCanvas) => {
+  const ctx = canvas.getContext('2d') as OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null;
+  if (!ctx) throw new Error("Canvas 2D context is not available.");
+  return ctx;
+};
+
+const toPng = async (canvas: AnyCanvas): Promise<Blob> => {
+  const blob = 'convertToBlob' in canvas
+    ? await canvas.convertToBlob({ type: 'image/png' })
+    : await new Promise<Blob | null>(r => canvas.toBlob(r, 'image/png'));
+  if (!blob) throw new Error("Failed to encode frame.");
+  return blob;
+};
+
+/**
+ * Legacy removal: every pixel brighter than the threshold in all channels becomes transparent.
+ */
+const removeThresholdBackground = (data: Uint8ClampedArray, threshold: number) => {
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i] > threshold && data[i + 1] > threshold && data[i + 2] > threshold) {
+      data[i + 3] = 0;
+    }
+  }
+};
+
+/**
+ * Edge-aware removal: flood-fills from the border so only background connected to the
+ * outside is cleared, which keeps white eyes, teeth and highlights intact.
+ * Near-threshold pixels on the boundary get partial alpha and are decontaminated
+ * (the white blended into them is removed) to avoid a light fringe.
+ */
+const removeConnectedBackground = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  marginX: number,
+  marginY: number,
+  options: BackgroundRemovalOptions
+) => {
+  const hardLimit = options.threshold;
+  const softLimit = Math.max(0, options.threshold - options.tolerance);
+  const softRange = 255 - softLimit;
+
+  // 0 = unvisited, 1 = background, 2 = soft edge
+  const state = new Uint8Array(width * height);
+  const depth = new Uint8Array(width * height);
+  // Queue entries carry their coordinates so the loop never divides to recover them
+  const queueX = new Int32Array(width * height);
+  const queueY = new Int32Array(width * height);
+  let head = 0;
+  let tail = 0;
+
+  const x0 = marginX;
+  const x1 = width - marginX;
+  const y0 = marginY;
+  const y1 = height - marginY;
+
+  const whiteness = (p: number) => Math.min(data[p * 4], data[p * 4 + 1], data[p * 4 + 2]);
+  const isBackground = (p: number) => data[p * 4 + 3] <= BOX_ALPHA || whiteness(p) > hardLimit;
+
+  // Background only spreads from background; soft edges only grow into further soft pixels,
+  // so a light outline never lets the fill through into white areas inside the character
+  const visit = (x: number, y: number, fromDepth: number) => {
+    const p = y * width + x;
+    if (state[p] !== 0) return;
+    const background = isBackground(p);
+    if (background && fromDepth === 0) {
+      state[p] = 1;
+      depth[p] = 0;
+    } else if (!background && whiteness(p) > softLimit && fromDepth < EDGE_DEPTH) {
+      state[p] = 2;
+      depth[p] = fromDepth + 1;
+    } else {
+      return;
+    }
+    queueX[tail] = x;
+    queueY[tail++] = y;
+  };
+
+  // Seed from the inner border; everything outside it was already cleared by the safety crop
+  for (let x = x0; x < x1; x++) {
+    visit(x, y0, 0);
+    visit(x, y1 - 1, 0);
+  }
+  for (let y = y0; y < y1; y++) {
+    visit(x0, y, 0);
+    visit(x1 - 1, y, 0);
+  }
+
+  while (head < tail) {
+    const x = queueX[head];
+    const y = queueY[head++];
+    const d = depth[y * width + x];
+    if (x > x0) visit(x - 1, y, d);
+    if (x < x1 - 1) visit(x + 1, y, d);
+    if (y > y0) visit(x, y - 1, d);
+    if (y < y1 - 1) visit(x, y + 1, d);
+  }
+
+  for (let p = 0, i = 0; p < state.length; p++, i += 4) {
+    if (state[p] === 1) {
+      data[i + 3] = 0;
+    } else if (state[p] === 2) {
+      // Treat the pixel as foreground blended over white and solve for the foreground colour
+      const alpha = Math.min(1, (255 - whiteness(p)) / softRange);
+      if (alpha <= 0) {
+        data[i + 3] = 0;
+        continue;
+      }
+      const inverse = 1 / alpha;
+      const white = (1 - alpha) * 255;
+      data[i] = (data[i] - white) * inverse;
+      data[i + 1] = (data[i + 1] - white) * inverse;
+      data[i + 2] = (data[i + 2] - white) * inverse;
+      data[i + 3] = Math.round(data[i + 3] * alpha);
+    }
+  }
+};
+
+/**
+ * Cleans one decoded frame in place and crops out the character:
+ * 1. Apply a 5% safety margin to drop edge artifacts
+ * 2. Remove the white background
+ * 3. Measure the bounding box and the anchors, then copy the character out
+ */
+export const cleanPixels = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  background: BackgroundRemovalOptions
+): CleanedPixels | null => {
+  const marginX = Math.floor(width * 0.05);
+  const marginY = Math.floor(height * 0.05);
+  const rowStride = width * 4;
+
+  // 1. SAFETY CROP: whole rows above and below, then the side columns of the rows in between
+  for (let y = 0; y < height; y++) {
+    const row = y * rowStride;
+    if (y < marginY || y >= height - marginY) {
+      for (let i = row + 3; i < row + rowStride; i += 4) data[i] = 0;
+      continue;
+    }
+    for (let x = 0; x < marginX; x++) {
+      data[row + x * 4 + 3] = 0;
+      data[row + (width - 1 - x) * 4 + 3] = 0;
+    }
+  }
+
+  // 2. BACKGROUND REMOVAL
+  if (background.mode === 'floodFill') {
+    removeConnectedBackground(data, width, height, marginX, marginY, background);
+  } else {
+    removeThresholdBackground(data, background.threshold);
+  }
+
+  // 3. BOUNDING BOX of the remaining character pixels
+  let minX = width;
+  let minY = height;
+  let maxX = -1;
+  let maxY = -1;
+  for (let y = 0, i = 3; y < height; y++) {
+    for (let x = 0; x < width; x++, i += 4) {
+      if (data[i] > BOX_ALPHA) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        maxY = y;
+      }
+    }
+  }
+  if (maxX < 0) return null;
+
+  const charWidth = maxX - minX + 1;
+  const charHeight = maxY - minY + 1;
+
+  // 4. ANCHORS: alpha-weighted centroid of the whole silhouette and of its lowest rows (the feet),
+  // measured while the character is copied out
+  const pixels = new Uint8ClampedArray(charWidth * charHeight * 4);
+  const feetTop = maxY - Math.max(1, Math.floor(charHeight * 0.1));
+  let sumA = 0, sumX = 0, feetA = 0, feetX = 0;
+  for (let y = minY; y <= maxY; y++) {
+    const from = y * rowStride + minX * 4;
+    pixels.set(data.subarray(from, from + charWidth * 4), (y - minY) * charWidth * 4);
+    for (let x = 0, i = from + 3; x < charWidth; x++, i += 4) {
+      const a = data[i];
+      if (a === 0) continue;
+      sumA += a;
+      sumX += a * x;
+      if (y >= feetTop) {
+        feetA += a;
+        feetX += a * x;
+      }
+    }
+  }
+
+  return {
+    pixels,
+    width: charWidth,
+    height: charHeight,
+    left: minX,
+    top: minY,
+    sourceWidth: width,
+    sourceHeight: height,
+    centroidX: sumA > 0 ? sumX / sumA : charWidth / 2,
+    feetX: feetA > 0 ? feetX / feetA : charWidth / 2,
+    touchesMargin: minX <= marginX || minY <= marginY || maxX >= width - marginX - 1 || maxY >= height - marginY - 1,
+  };
+};
+
+const decode = async (url: string) => {
+  const blob = await fetch(url).then(r => r.blob());
+  const bitmap = await createImageBitmap(blob);
+  try {
+    const ctx = context2d(createCanvas(bitmap.width, bitmap.height));
+    ctx.drawImage(bitmap, 0, 0);
+    return ctx.getImageData(0, 0, bitmap.width, bitmap.height);
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Pulls the colours back toward the reference, then encodes the frame
+const encode = async (
+  canvas: AnyCanvas,
+  pixels: Uint8ClampedArray,
+  referenceColors: ReferenceColors | null,
+  color: ColorStabilizationOptions,
+  repaint: boolean
+): Promise<EncodedFrame> => {
+  if (referenceColors && color.mode !== 'off') {
+    stabilizePixels(pixels, referenceColors, color);
+    repaint = true;
+  }
+  if (repaint) context2d(canvas).putImageData(new ImageData(pixels, canvas.width, canvas.height), 0, 0);
+  return {
+    pixels,
+    blob: await toPng(canvas),
+    colorDrift: referenceColors ? measureColorDrift(pixels, referenceColors) : undefined,
+  };
+};
+
+/**
+ * Runs one task and lists the buffers its result can hand over without copying.
+ */
+export const runPixelTask = async <T extends PixelTask>(
+  task: T
+): Promise<{ result: PixelTaskResults[T['type']]; transfer: Transferable[] }> => {
+  const done = (result: PixelTaskResults[PixelTask['type']], transfer: Transferable[]) =>
+    ({ result: result as PixelTaskResults[T['type']], transfer });
+
+  switch (task.type) {
+    case 'clean': {
+      const image = await decode(task.url);
+      const cleaned = cleanPixels(image.data, image.width, image.height, task.background);
+      return done(cleaned, cleaned ? [cleaned.pixels.buffer] : []);
+    }
+    case 'compose': {
+      const { source, placement } = task;
+      const canvas = createCanvas(task.targetWidth, task.targetHeight);
+      const ctx = context2d(canvas);
+      const sourceCanvas = createCanvas(source.width, source.height);
+      context2d(sourceCanvas).putImageData(new ImageData(source.pixels, source.width, source.height), 0, 0);
+      ctx.drawImage(
+        sourceCanvas, 0, 0, source.width, source.height,
+        placement.x, placement.y, placement.width, placement.height
+      );
+      const pixels = ctx.getImageData(0, 0, task.targetWidth, task.targetHeight).data;
+      const encoded = await encode(canvas, pixels, task.referenceColors, task.color, false);
+      return done(encoded, [encoded.pixels.buffer]);
+    }
+    case 'encode': {
+      const canvas = createCanvas(task.width, task.height);
+      const encoded = await encode(canvas, task.pixels, task.referenceColors, task.color, true);
+      return done(encoded, [encoded.pixels.buffer]);
+    }
+    case 'gifPalette': {
+      const palette = buildGifPalette(task.samples, task.quantizer);
+      return done(palette, [palette.buffer]);
+    }
+    case 'gifFrame': {
+      const encoded = encodeGifFrame(task.pixels, task.width, task.height, task.options, task.palette);
+      return done(encoded, encoded.palette ? [encoded.data.buffer, encoded.palette.buffer] : [encoded.data.buffer]);
+    }
+  }
+};
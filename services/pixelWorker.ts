@@ -0,0 +1,16 @@
+import { PixelTask, runPixelTask } from "./pixelPipeline";
+
+/**
+ * Worker entry: runs pixel tasks posted by the worker pool and transfers the result buffers back.
+ */
+self.addEventListener('message', async (event: MessageEvent<{ id: number; task: PixelTask }>) => {
+  const { id, task } = event.data;
+  try {
+    const { result, transfer } = await runPixelTask(task);
+    self.postMessage({ id, result }, { transfer });
+  } catch (e: any) {
+    self.postMessage({ id, error: e?.message || String(e) });
+  }
+});
+
+self.postMessage({ ready: true });
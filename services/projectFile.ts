@@ -0,0 +1,285 @@
+import { HistoryFrame, ProjectData, SequenceMetrics, UserConfig } from "../types";
+import { FRAME_PROVIDERS } from "./providers";
+import { STICKER_PLATFORMS } from "./stickerPresets";
+
+export const PROJECT_EXTENSION = '.toonmotion';
+const PROJECT_FORMAT = 'toonmotion-project';
+const MANIFEST_NAME = 'manifest.json';
+
+// Bump when the manifest layout changes, and add a migration from the previous version below
+export const PROJECT_VERSION = 1;
+
+interface ManifestImage {
+  path: string;
+  width: number;
+  height: number;
+}
+
+interface ManifestFrame extends ManifestImage {
+  hold?: number;
+  registration?: SequenceMetrics;
+}
+
+interface ProjectManifest {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  name: string;
+  createdAt: string; // ISO date
+  prompt: string;
+  config: UserConfig;
+  reference?: ManifestImage & { name: string; mimeType: string };
+  rawFrames: (string | null)[]; // Archive paths of the raw model outputs, null where a slot failed
+  frames: ManifestFrame[];
+}
+
+/**
+ * Upgrades a manifest from version `n` to `n + 1`. Each entry only has to handle its own step;
+ * older files pass through every migration after theirs in order.
+ */
+const MIGRATIONS: Record<number, (manifest: any) => any> = {};
+
+const framePath = (folder: string, index: number, extension = 'png') =>
+  `${folder}/frame_${(index + 1).toString().padStart(2, '0')}.${extension}`;
+
+const extensionOf = (blob: Blob) => ({ 'image/jpeg': 'jpg', 'image/webp': 'webp' } as Record<string, string>)[blob.type] || 'png';
+
+const mimeTypeOf = (path: string) =>
+  path.endsWith('.jpg') || path.endsWith('.jpeg') ? 'image/jpeg' : path.endsWith('.webp') ? 'image/webp' : 'image/png';
+
+/**
+ * Packs the project into a zip with a versioned manifest, the reference image,
+ * the raw model outputs and the processed frames.
+ */
+export const exportProjectFile = async (project: ProjectData): Promise<Blob> => {
+  if (!window.JSZip) {
+    throw new Error("JSZip library not loaded");
+  }
+
+  const zip = new window.JSZip();
+  const manifest: ProjectManifest = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    name: project.name,
+    createdAt: new Date().toISOString(),
+    prompt: project.config.prompt,
+    config: project.config,
+    rawFrames: project.rawOutputs.map((raw, i) => {
+      if (!raw) return null;
+      const path = framePath('raw', i, extensionOf(raw));
+      zip.file(path, raw);
+      return path;
+    }),
+    frames: project.frames.map((frame, i) => {
+      const path = framePath('frames', i);
+      zip.file(path, frame.blob);
+      return { path, width: frame.width, height: frame.height, hold: frame.hold, registration: frame.registration };
+    }),
+  };
+
+  if (project.source) {
+    const path = `reference.${extensionOf(project.source.blob)}`;
+    zip.file(path, project.source.blob);
+    manifest.reference = {
+      path,
+      name: project.source.name,
+      mimeType: project.source.blob.type,
+      width: project.source.width,
+      height: project.source.height,
+    };
+  }
+
+  zip.file(MANIFEST_NAME, JSON.stringify(manifest, null, 2));
+  return await zip.generateAsync({ type: "blob", compression: "DEFLATE" });
+};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isPositive = (value: unknown) => typeof value === 'number' && isFinite(value) && value > 0;
+
+const checkImage = (value: unknown, label: string) => {
+  if (!isObject(value) || typeof value.path !== 'string' || !isPositive(value.width) || !isPositive(value.height)) {
+    throw new Error(`Invalid project file: ${label} is malformed.`);
+  }
+};
+
+/**
+ * Throws on anything the editor cannot restore. Unknown extra fields are ignored.
+ */
+const validateManifest = (manifest: any): ProjectManifest => {
+  if (!isObject(manifest.config)) throw new Error("Invalid project file: missing config.");
+  if (!Array.isArray(manifest.frames) || manifest.frames.length === 0) {
+    throw new Error("Invalid project file: it contains no frames.");
+  }
+  manifest.frames.forEach((frame: unknown, i: number) => {
+    checkImage(frame, `frame ${i + 1}`);
+    const { hold, registration } = frame as ManifestFrame;
+    if (hold !== undefined && !isPositive(hold)) throw new Error(`Invalid project file: frame ${i + 1} has a bad hold.`);
+    if (registration !== undefined && (!isObject(registration) || !isPositive(registration.relHeight) || typeof registration.relBottom !== 'number')) {
+      throw new Error(`Invalid project file: frame ${i + 1} has bad registration data.`);
+    }
+  });
+  if (!Array.isArray(manifest.rawFrames) || manifest.rawFrames.some((p: unknown) => p !== null && typeof p !== 'string')) {
+    throw new Error("Invalid project file: raw frame list is malformed.");
+  }
+  if (manifest.reference !== undefined) {
+    checkImage(manifest.reference, 'reference image');
+  }
+  return manifest as ProjectManifest;
+};
+
+type SettingRule = readonly string[] | { min: number; max: number; integer?: boolean };
+
+// Allowed values of the enum settings and the ranges the controls enforce for numeric ones, by setting path
+const SETTING_RULES: Record<string, SettingRule> = {
+  fps: { min: 1, max: 30, integer: true },
+  resolution: ['720p', '1080p'],
+  frameCount: { min: 1, max: 24, integer: true },
+  zoom: { min: 0.5, max: 1 },
+  generationMode: ['parallel', 'chained'],
+  providerId: Object.keys(FRAME_PROVIDERS),
+  platform: Object.keys(STICKER_PLATFORMS),
+  'background.mode': ['threshold', 'floodFill'],
+  'background.threshold': { min: 200, max: 254, integer: true },
+  'background.tolerance': { min: 0, max: 80, integer: true },
+  'normalization.scaleMode': ['perFrame', 'sequence'],
+  'normalization.scaleSource': ['median', 'reference'],
+  'normalization.anchor': ['center', 'feet', 'centroid', 'match'],
+  'spriteSheet.layout': ['grid', 'row', 'packed'],
+  'spriteSheet.padding': { min: 0, max: 16, integer: true },
+  'spriteSheet.extrude': { min: 0, max: 16, integer: true },
+  'spriteSheet.format': ['hash', 'array', 'aseprite'],
+  'timing.playback': ['forward', 'pingpong'],
+  'timing.loopCount': { min: 0, max: 5, integer: true },
+  'timing.easing': ['linear', 'easeIn', 'easeOut', 'easeInOut', 'holdKeys'],
+  'apng.colors': { min: 0, max: 256, integer: true },
+  'apng.deltaTolerance': { min: 0, max: 24, integer: true },
+  'apng.targetSizeKB': { min: 0, max: 1000, integer: true },
+  'gif.palette': ['global', 'perFrame'],
+  'gif.quantizer': ['medianCut', 'octree'],
+  'gif.dither': ['none', 'floydSteinberg', 'ordered'],
+  'gif.alphaThreshold': { min: 1, max: 255, integer: true },
+  'color.mode': ['off', 'histogram', 'palette'],
+  'color.strength': { min: 0.1, max: 1 },
+  'color.paletteSize': { min: 2, max: 64, integer: true },
+  'quality.autoRetries': { min: 0, max: 3, integer: true },
+};
+
+/**
+ * Checks a saved value against its rule: enum values must be allowed, numbers are clamped into range.
+ * Returns undefined when the value cannot be used.
+ */
+const checkSetting = (path: string, value: unknown): unknown => {
+  const rule = SETTING_RULES[path];
+  if (!rule) return value;
+  if (Array.isArray(rule)) return rule.includes(value as string) ? value : undefined;
+  const range = rule as Exclude<SettingRule, readonly string[]>;
+  if (typeof value !== 'number' || !isFinite(value)) return undefined;
+  const clamped = Math.min(range.max, Math.max(range.min, value));
+  return range.integer ? Math.round(clamped) : clamped;
+};
+
+/**
+ * Keeps each saved setting whose type matches the current config and that passes its rule,
+ * and falls back to the current value otherwise, so files from builds with fewer or differently
+ * shaped settings still open and hand-edited files cannot put the editor into an invalid state.
+ */
+const mergeConfig = (defaults: Record<string, any>, saved: Record<string, any>, prefix = ''): Record<string, any> => {
+  const merged: Record<string, any> = { ...defaults };
+  for (const [key, value] of Object.entries(saved)) {
+    const path = prefix + key;
+    const current = defaults[key];
+    if (current === undefined) {
+      // Optional settings such as outputSize are only kept when well formed
+      if (path === 'outputSize' && isObject(value) && isPositive(value.width) && isPositive(value.height)) {
+        merged[key] = { width: Math.round(value.width), height: Math.round(value.height) };
+      }
+    } else if (current === null) {
+      // Nullable settings such as the GIF matte hold a hex colour when set
+      if (value === null || (typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value))) merged[key] = value;
+    } else if (isObject(current)) {
+      if (isObject(value)) merged[key] = mergeConfig(current, value, `${path}.`);
+    } else if (Array.isArray(current)) {
+      if (Array.isArray(value) && value.every(item => typeof item === 'string')) merged[key] = value;
+    } else if (typeof value === typeof current) {
+      const checked = checkSetting(path, value);
+      if (checked !== undefined) merged[key] = checked;
+    }
+  }
+  return merged;
+};
+
+/**
+ * Opens a .toonmotion file: validates the manifest, migrates it to the current version
+ * and loads every referenced image. `defaults` fills settings the file does not have.
+ */
+export const importProjectFile = async (file: Blob, defaults: UserConfig): Promise<ProjectData> => {
+  if (!window.JSZip) {
+    throw new Error("JSZip library not loaded");
+  }
+
+  let zip: any;
+  try {
+    zip = await window.JSZip.loadAsync(file);
+  } catch {
+    throw new Error("Invalid project file: not a zip archive.");
+  }
+
+  const manifestFile = zip.file(MANIFEST_NAME);
+  if (!manifestFile) throw new Error("Invalid project file: manifest.json is missing.");
+
+  let manifest: any;
+  try {
+    manifest = JSON.parse(await manifestFile.async('string'));
+  } catch {
+    throw new Error("Invalid project file: manifest.json is not valid JSON.");
+  }
+
+  if (!isObject(manifest) || manifest.format !== PROJECT_FORMAT || !Number.isInteger(manifest.version)) {
+    throw new Error("Invalid project file: not a ToonMotion project.");
+  }
+  if (manifest.version > PROJECT_VERSION) {
+    throw new Error(`This project was saved by a newer version of ToonMotion (format v${manifest.version}).`);
+  }
+  for (let version = manifest.version; version < PROJECT_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`Project format v${version} can no longer be opened.`);
+    manifest = { ...migrate(manifest), version: version + 1 };
+  }
+
+  const valid = validateManifest(manifest);
+
+  const readImage = async (path: string, type = mimeTypeOf(path)): Promise<Blob> => {
+    const entry = zip.file(path);
+    if (!entry) throw new Error(`Invalid project file: ${path} is missing.`);
+    return new Blob([await entry.async('blob')], { type });
+  };
+
+  const frames: HistoryFrame[] = await Promise.all(valid.frames.map(async frame => ({
+    blob: await readImage(frame.path),
+    width: frame.width,
+    height: frame.height,
+    hold: frame.hold,
+    registration: frame.registration,
+  })));
+
+  const rawOutputs = await Promise.all(valid.rawFrames.map(path => (path ? readImage(path) : null)));
+
+  const config = mergeConfig(defaults, valid.config) as UserConfig;
+  config.prompt = typeof valid.prompt === 'string' ? valid.prompt : config.prompt;
+
+  return {
+    name: typeof valid.name === 'string' && valid.name ? valid.name : config.prompt || 'Imported project',
+    config,
+    source: valid.reference
+      ? {
+          blob: await readImage(valid.reference.path, valid.reference.mimeType || undefined),
+          name: valid.reference.name || 'reference.png',
+          width: valid.reference.width,
+          height: valid.reference.height,
+        }
+      : undefined,
+    rawOutputs,
+    frames,
+  };
+};
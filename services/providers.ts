@@ -0,0 +1,12 @@
+import { FrameProvider, FrameProviderId } from "../types";
+import { geminiProvider } from "./gemini";
+import { localProvider } from "./localProvider";
+
+export const FRAME_PROVIDERS: Record<FrameProviderId, FrameProvider> = {
+  gemini: geminiProvider,
+  local: localProvider,
+};
+
+export const getFrameProvider = (id: FrameProviderId): FrameProvider => {
+  return FRAME_PROVIDERS[id] || geminiProvider;
+};
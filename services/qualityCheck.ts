@@ -0,0 +1,167 @@
+import { GeneratedFrame, QualityCheckOptions, QualityIssue } from "../types";
+
+export const DEFAULT_QUALITY_CHECK: QualityCheckOptions = {
+  enabled: true,
+  autoRetries: 0,
+};
+
+// Silhouettes are analysed on a grid of at most this many cells per side
+const MASK_GRID = 128;
+const MASK_ALPHA = 20; // Same cut-off the bounding box in processFrameData uses
+const COLOR_ALPHA = 128;
+
+// A separate blob counts once it reaches this share of the largest one, so specks and stray strokes are ignored
+const BLOB_MIN_SHARE = 0.08;
+// Area and aspect ratio may drift this many times from the sequence median
+const AREA_RATIO = 1.6;
+const ASPECT_RATIO = 1.8;
+// Bhattacharyya distance from the reference; also compared with the sequence median so a loose reference does not flag everything
+const COLOR_MAX = 0.35;
+const COLOR_MEDIAN_RATIO = 1.5;
+
+// Median checks need enough frames for a median to mean something
+const MIN_SEQUENCE = 3;
+
+interface FrameMeasure {
+  area: number; // Foreground cells
+  aspect: number; // Bounding box width / height
+  blobs: number;
+}
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * Area, bounding box and number of significant 8-connected blobs of the silhouette.
+ */
+const measureSilhouette = (data: Uint8ClampedArray, width: number, height: number): FrameMeasure | null => {
+  const step = Math.max(1, Math.ceil(Math.max(width, height) / MASK_GRID));
+  const cols = Math.ceil(width / step);
+  const rows = Math.ceil(height / step);
+  const mask = new Uint8Array(cols * rows);
+
+  let area = 0;
+  let minX = cols, minY = rows, maxX = -1, maxY = -1;
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < cols; x++) {
+      if (data[((y * step) * width + x * step) * 4 + 3] <= MASK_ALPHA) continue;
+      mask[y * cols + x] = 1;
+      area++;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+  if (area === 0) return null;
+
+  // Flood fill every unvisited cell to collect blob sizes
+  const sizes: number[] = [];
+  const stack: number[] = [];
+  for (let start = 0; start < mask.length; start++) {
+    if (mask[start] !== 1) continue;
+    mask[start] = 2;
+    stack.push(start);
+    let size = 0;
+    while (stack.length > 0) {
+      const cell = stack.pop()!;
+      size++;
+      const cx = cell % cols;
+      const cy = (cell - cx) / cols;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = cx + dx, ny = cy + dy;
+          if (nx < 0 || ny < 0 || nx >= cols || ny >= rows) continue;
+          const next = ny * cols + nx;
+          if (mask[next] !== 1) continue;
+          mask[next] = 2;
+          stack.push(next);
+        }
+      }
+    }
+    sizes.push(size);
+  }
+  const largest = Math.max(...sizes);
+
+  return {
+    area,
+    aspect: (maxX - minX + 1) / (maxY - minY + 1),
+    blobs: sizes.filter(size => size >= largest * BLOB_MIN_SHARE).length,
+  };
+};
+
+/**
+ * Normalized 4×4×4 RGB histogram of the opaque foreground, or null when there is none.
+ */
+export const colorHistogram = (data: Uint8ClampedArray): Float32Array | null => {
+  const bins = new Float32Array(64);
+  let total = 0;
+  for (let p = 0; p < data.length; p += 4) {
+    if (data[p + 3] < COLOR_ALPHA) continue;
+    bins[((data[p] >> 6) << 4) | ((data[p + 1] >> 6) << 2) | (data[p + 2] >> 6)]++;
+    total++;
+  }
+  if (total === 0) return null;
+  for (let i = 0; i < bins.length; i++) bins[i] /= total;
+  return bins;
+};
+
+// Bhattacharyya distance: 0 for identical histograms, 1 for ones with no overlap
+const histogramDistance = (a: Float32Array, b: Float32Array) => {
+  let overlap = 0;
+  for (let i = 0; i < a.length; i++) overlap += Math.sqrt(a[i] * b[i]);
+  return Math.sqrt(Math.max(0, 1 - overlap));
+};
+
+const outside = (value: number, center: number, ratio: number) =>
+  center > 0 && (value > center * ratio || value < center / ratio);
+
+/**
+ * Flags frames that look like a failed generation: a silhouette cut off by the crop margin,
+ * extra characters or leftovers, a size or shape far from the rest of the sequence,
+ * or colours far from the reference. Returns the issues per frame, in order.
+ */
+export const findQualityIssues = (frames: GeneratedFrame[], reference?: Float32Array | null): QualityIssue[][] => {
+  const pixels = frames.map(f => (f.pixelBuffer ? new Uint8ClampedArray(f.pixelBuffer) : null));
+  const measures = frames.map((f, i) => (pixels[i] && f.width && f.height ? measureSilhouette(pixels[i]!, f.width, f.height) : null));
+  const measured = measures.filter((m): m is FrameMeasure => m !== null);
+  const sequence = measured.length >= MIN_SEQUENCE;
+
+  const medianArea = median(measured.map(m => m.area));
+  const medianAspect = median(measured.map(m => m.aspect));
+  // A character with a detached prop has two blobs in every frame, so only more than usual counts
+  const usualBlobs = Math.max(1, sequence ? median(measured.map(m => m.blobs)) : 1);
+
+  const distances = reference
+    ? pixels.map(data => {
+        const histogram = data ? colorHistogram(data) : null;
+        return histogram ? histogramDistance(histogram, reference) : null;
+      })
+    : frames.map(() => null);
+  const measuredDistances = distances.filter((d): d is number => d !== null);
+  const colorLimit = Math.max(COLOR_MAX, sequence ? median(measuredDistances) * COLOR_MEDIAN_RATIO : 0);
+
+  return frames.map((frame, i) => {
+    const issues: QualityIssue[] = [];
+    const m = measures[i];
+    if (frame.touchesMargin) issues.push('cropped');
+    if (m && m.blobs > usualBlobs) issues.push('multiple');
+    if (m && sequence && outside(m.area, medianArea, AREA_RATIO)) issues.push('area');
+    if (m && sequence && outside(m.aspect, medianAspect, ASPECT_RATIO)) issues.push('aspect');
+    const distance = distances[i];
+    if (distance !== null && distance > colorLimit) issues.push('color');
+    return issues;
+  });
+};
+
+/**
+ * Copies of the frames with their quality issues refreshed.
+ */
+export const withQualityIssues = (frames: GeneratedFrame[], reference?: Float32Array | null): GeneratedFrame[] => {
+  const issues = findQualityIssues(frames, reference);
+  return frames.map((frame, i) => ({ ...frame, qualityIssues: issues[i].length > 0 ? issues[i] : undefined }));
+};
@@ -0,0 +1,394 @@
+import { GeneratedFrame, StickerCheck, StickerPlatformId, StickerReport, TimingOptions, UserConfig } from "../types";
+import { dropFrames, optimizeApng } from "./apngOptimizer";
+import { createGif } from "./videoProcessor";
+import { createWebm } from "./webmEncoder";
+import { buildPlaybackSequence } from "./timing";
+
+export type StickerPlatform = Exclude<StickerPlatformId, 'none'>;
+
+export interface StickerPlatformRules {
+  id: StickerPlatform;
+  name: string;
+  format: StickerReport['format'];
+  width: number; // Canvas bounds
+  height: number;
+  exactSize: boolean; // The canvas must be exactly width × height instead of fitting inside
+  minLongSide?: number; // The longer side must reach this many px
+  minFrames?: number;
+  maxFrames?: number;
+  maxDurationMs?: number; // Total playback, including finite loops
+  maxFps?: number;
+  loops?: { min: number; max: number }; // Finite loop counts the store accepts; omitted = must loop forever
+  maxSizeKB: number;
+  preset: { frameCount: number; fps: number; loopCount: number };
+  note?: string;
+}
+
+export const STICKER_PLATFORMS: Record<StickerPlatform, StickerPlatformRules> = {
+  line: {
+    id: 'line',
+    name: 'LINE',
+    format: 'apng',
+    width: 320,
+    height: 270,
+    exactSize: false,
+    minLongSide: 270,
+    minFrames: 5,
+    maxFrames: 20,
+    maxDurationMs: 4000,
+    loops: { min: 1, max: 4 },
+    maxSizeKB: 300,
+    preset: { frameCount: 8, fps: 8, loopCount: 3 },
+  },
+  telegram: {
+    id: 'telegram',
+    name: 'Telegram',
+    format: 'webm',
+    width: 512,
+    height: 512,
+    exactSize: false,
+    minLongSide: 512,
+    maxDurationMs: 3000,
+    maxFps: 30,
+    maxSizeKB: 256,
+    preset: { frameCount: 12, fps: 12, loopCount: 0 },
+    note: 'TGS 是矢量 Lottie 格式，无法由位图帧生成，这里导出 WebM 视频贴纸。',
+  },
+  wechat: {
+    id: 'wechat',
+    name: '微信',
+    format: 'gif',
+    width: 240,
+    height: 240,
+    exactSize: true,
+    maxSizeKB: 500,
+    preset: { frameCount: 8, fps: 8, loopCount: 0 },
+  },
+  discord: {
+    id: 'discord',
+    name: 'Discord',
+    format: 'apng',
+    width: 320,
+    height: 320,
+    exactSize: true,
+    maxSizeKB: 512,
+    preset: { frameCount: 8, fps: 8, loopCount: 0 },
+  },
+};
+
+// Bitrates tried in turn when a WebM is over the size limit
+const WEBM_BITRATE_LADDER = [1_000_000, 600_000, 400_000, 250_000, 150_000, 100_000];
+const FRAME_STEP_LADDER = [1, 2, 3];
+
+interface StickerOutput {
+  blob: Blob;
+  width: number;
+  height: number;
+  frameCount: number; // Frames in the file
+  cycleMs: number; // One pass through the animation
+  fps: number;
+  loopCount: number;
+}
+
+/**
+ * Switches the config to a platform's preset: canvas, frame count, fps, loops and size budget.
+ */
+export const applyStickerPreset = (config: UserConfig, platform: StickerPlatformId): UserConfig => {
+  if (platform === 'none') {
+    return { ...config, platform, outputSize: undefined };
+  }
+
+  const rules = STICKER_PLATFORMS[platform];
+  return {
+    ...config,
+    platform,
+    outputSize: { width: rules.width, height: rules.height },
+    frameCount: rules.preset.frameCount,
+    fps: rules.preset.fps,
+    timing: { ...config.timing, loopCount: rules.preset.loopCount },
+    apng: rules.format === 'apng' ? { ...config.apng, targetSizeKB: rules.maxSizeKB } : config.apng,
+  };
+};
+
+/**
+ * Scales every frame to fit the platform canvas, centring it when the canvas size is fixed.
+ */
+const fitFramesToCanvas = (frames: GeneratedFrame[], rules: StickerPlatformRules): GeneratedFrame[] => {
+  return frames.map(frame => {
+    if (!frame.pixelBuffer || !frame.width || !frame.height) return frame;
+
+    const scale = Math.min(rules.width / frame.width, rules.height / frame.height);
+    const w = Math.max(1, Math.round(frame.width * scale));
+    const h = Math.max(1, Math.round(frame.height * scale));
+    const width = rules.exactSize ? rules.width : w;
+    const height = rules.exactSize ? rules.height : h;
+
+    const source = document.createElement('canvas');
+    source.width = frame.width;
+    source.height = frame.height;
+    source.getContext('2d')!.putImageData(
+      new ImageData(new Uint8ClampedArray(frame.pixelBuffer.slice(0)), frame.width, frame.height),
+      0,
+      0
+    );
+
+    const target = document.createElement('canvas');
+    target.width = width;
+    target.height = height;
+    const ctx = target.getContext('2d')!;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(source, Math.round((width - w) / 2), Math.round((height - h) / 2), w, h);
+
+    return { ...frame, width, height, pixelBuffer: ctx.getImageData(0, 0, width, height).data.buffer };
+  });
+};
+
+/**
+ * Reads num_frames from the acTL chunk; a PNG without one is a single frame.
+ */
+const readApngFrameCount = async (blob: Blob): Promise<number> => {
+  const view = new DataView(await blob.arrayBuffer());
+  let offset = 8;
+  while (offset + 8 <= view.byteLength) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(
+      view.getUint8(offset + 4),
+      view.getUint8(offset + 5),
+      view.getUint8(offset + 6),
+      view.getUint8(offset + 7)
+    );
+    if (type === 'acTL') return view.getUint32(offset + 8);
+    if (type === 'IDAT') break;
+    offset += 12 + length;
+  }
+  return 1;
+};
+
+// Keeps every `step`th frame with its own hold, which shortens the animation unlike dropFrames
+const skipFrames = (frames: GeneratedFrame[], step: number): GeneratedFrame[] =>
+  frames.filter((_, i) => i % step === 0);
+
+const cycleDuration = (frames: GeneratedFrame[], fps: number, timing: TimingOptions) =>
+  buildPlaybackSequence(frames, fps, timing).reduce((sum, step) => sum + step.duration, 0);
+
+/**
+ * Encodes the platform's format. With `fitSize`, lossy settings are searched until the size limit is met.
+ */
+const encodeForPlatform = async (
+  rules: StickerPlatformRules,
+  frames: GeneratedFrame[],
+  fps: number,
+  timing: TimingOptions,
+  config: UserConfig,
+  fitSize: boolean
+): Promise<StickerOutput> => {
+  const limit = rules.maxSizeKB * 1024;
+  const base = {
+    width: frames[0].width || 0,
+    height: frames[0].height || 0,
+    cycleMs: cycleDuration(frames, fps, timing),
+    fps,
+    loopCount: timing.loopCount,
+  };
+
+  if (rules.format === 'apng') {
+    const apngOptions = fitSize ? { ...config.apng, targetSizeKB: rules.maxSizeKB } : config.apng;
+    const { blob } = await optimizeApng(frames, fps, timing, apngOptions, { allowResize: false, minFrames: rules.minFrames });
+    return { ...base, blob, frameCount: await readApngFrameCount(blob) };
+  }
+
+  if (rules.format === 'webm') {
+    // Finite loops are written out as repeated passes
+    const passes = Math.max(1, timing.loopCount);
+    const frameCount = buildPlaybackSequence(frames, fps, timing).length * passes;
+    let blob = await createWebm(frames, fps, timing, WEBM_BITRATE_LADDER[0]);
+    for (const bitrate of WEBM_BITRATE_LADDER.slice(1)) {
+      if (!fitSize || blob.size <= limit) break;
+      blob = await createWebm(frames, fps, timing, bitrate);
+    }
+    return { ...base, blob, frameCount };
+  }
+
+  let output: StickerOutput | null = null;
+  for (const step of FRAME_STEP_LADDER) {
+    const dropped = dropFrames(frames, step);
+    const frameCount = buildPlaybackSequence(dropped, fps, timing).length;
+    if (output && frameCount < Math.max(2, rules.minFrames || 0)) break;
+
+    output = { ...base, blob: await createGif(dropped, fps, timing, config.gif), frameCount };
+    if (!fitSize || output.blob.size <= limit) break;
+  }
+  return output!;
+};
+
+const formatKB = (bytes: number) => `${Math.round(bytes / 1024)} KB`;
+
+const fitsCanvas = (rules: StickerPlatformRules, width: number, height: number) =>
+  rules.exactSize
+    ? width === rules.width && height === rules.height
+    : width <= rules.width && height <= rules.height && Math.max(width, height) >= (rules.minLongSide || 0);
+
+/**
+ * Checks an encoded sticker against every rule of the platform.
+ */
+const validateSticker = (rules: StickerPlatformRules, output: StickerOutput): StickerCheck[] => {
+  const checks: StickerCheck[] = [];
+  const { width, height } = output;
+
+  const sizeRule = rules.exactSize
+    ? `须为 ${rules.width}×${rules.height}`
+    : `上限 ${rules.width}×${rules.height}${rules.minLongSide ? `，长边至少 ${rules.minLongSide}` : ''}`;
+  checks.push({ rule: 'dimensions', passed: fitsCanvas(rules, width, height), message: `尺寸 ${width}×${height}（${sizeRule}）` });
+
+  if (rules.minFrames || rules.maxFrames) {
+    const min = rules.minFrames || 1;
+    const max = rules.maxFrames || Infinity;
+    checks.push({
+      rule: 'frames',
+      passed: output.frameCount >= min && output.frameCount <= max,
+      message: `帧数 ${output.frameCount}（允许 ${min}–${rules.maxFrames || '∞'}）`,
+    });
+  }
+
+  if (rules.maxFps) {
+    checks.push({
+      rule: 'fps',
+      passed: output.fps <= rules.maxFps,
+      message: `帧率 ${Math.round(output.fps * 10) / 10} FPS（上限 ${rules.maxFps}）`,
+    });
+  }
+
+  if (rules.loops) {
+    checks.push({
+      rule: 'loops',
+      passed: output.loopCount >= rules.loops.min && output.loopCount <= rules.loops.max,
+      message: `循环 ${output.loopCount === 0 ? '无限' : `${output.loopCount} 次`}（允许 ${rules.loops.min}–${rules.loops.max} 次）`,
+    });
+  } else {
+    checks.push({
+      rule: 'loops',
+      passed: output.loopCount === 0,
+      message: `循环 ${output.loopCount === 0 ? '无限' : `${output.loopCount} 次`}（须无限循环）`,
+    });
+  }
+
+  if (rules.maxDurationMs) {
+    const total = output.cycleMs * Math.max(1, output.loopCount);
+    checks.push({
+      rule: 'duration',
+      passed: total <= rules.maxDurationMs,
+      message: `播放时长 ${(total / 1000).toFixed(2)} 秒（上限 ${rules.maxDurationMs / 1000} 秒）`,
+    });
+  }
+
+  checks.push({
+    rule: 'size',
+    passed: output.blob.size <= rules.maxSizeKB * 1024,
+    message: `文件大小 ${formatKB(output.blob.size)}（上限 ${rules.maxSizeKB} KB）`,
+  });
+
+  return checks;
+};
+
+/**
+ * Encodes the sticker for the configured platform and validates it.
+ * When a rule fails, the frames, fps and loops are adjusted and the file is re-encoded:
+ * frames are dropped to the frame limit, scaled onto the platform canvas, loops clamped,
+ * playback sped up to the duration limit (skipping frames once the frame rate limit is reached),
+ * and lossy settings searched down to the size limit.
+ */
+export const exportSticker = async (
+  frames: GeneratedFrame[],
+  config: UserConfig
+): Promise<{ blob: Blob; report: StickerReport }> => {
+  if (config.platform === 'none') {
+    throw new Error("No sticker platform selected");
+  }
+  if (frames.length === 0) {
+    throw new Error("No frames to encode");
+  }
+
+  const rules = STICKER_PLATFORMS[config.platform];
+  const original = await encodeForPlatform(rules, frames, config.fps, config.timing, config, false);
+  const before = validateSticker(rules, original);
+  const report = { platform: config.platform, format: rules.format, before };
+
+  if (before.every(check => check.passed)) {
+    return { blob: original.blob, report: { ...report, size: original.blob.size, after: before, fixes: [] } };
+  }
+
+  const fixes: string[] = [];
+  let fitted = frames;
+  let fps = config.fps;
+  let timing: TimingOptions = { ...config.timing };
+
+  if (rules.maxFrames && buildPlaybackSequence(fitted, fps, timing).length > rules.maxFrames) {
+    let step = 2;
+    while (buildPlaybackSequence(dropFrames(frames, step), fps, timing).length > rules.maxFrames && step < frames.length) step++;
+    fitted = dropFrames(frames, step);
+    fixes.push(`抽帧：每 ${step} 帧保留 1 帧`);
+  }
+
+  if (!fitsCanvas(rules, fitted[0].width || 0, fitted[0].height || 0)) {
+    fitted = fitFramesToCanvas(fitted, rules);
+    fixes.push(`尺寸调整为 ${fitted[0].width}×${fitted[0].height}`);
+  }
+
+  if (rules.maxFps && fps > rules.maxFps) {
+    fps = rules.maxFps;
+    fixes.push(`帧率降至 ${fps} FPS`);
+  }
+
+  if (rules.loops) {
+    const loops = Math.min(rules.loops.max, Math.max(rules.loops.min, timing.loopCount || rules.loops.max));
+    if (loops !== timing.loopCount) {
+      timing = { ...timing, loopCount: loops };
+      fixes.push(`循环次数设为 ${loops} 次`);
+    }
+  } else if (timing.loopCount !== 0) {
+    timing = { ...timing, loopCount: 0 };
+    fixes.push('改为无限循环');
+  }
+
+  if (rules.maxDurationMs) {
+    const maxDuration = rules.maxDurationMs;
+    const total = () => cycleDuration(fitted, fps, timing) * Math.max(1, timing.loopCount);
+
+    // Fewer loops first, since that keeps the motion at its authored speed
+    if (total() > maxDuration && rules.loops && timing.loopCount > rules.loops.min) {
+      const cycle = cycleDuration(fitted, fps, timing);
+      const loops = Math.max(rules.loops.min, Math.floor(maxDuration / cycle));
+      if (loops !== timing.loopCount) {
+        timing = { ...timing, loopCount: loops };
+        fixes.push(`循环次数减至 ${loops} 次`);
+      }
+    }
+
+    if (total() > maxDuration) {
+      fps = (fps * total()) / maxDuration;
+      // Per-frame rounding can still overshoot slightly
+      for (let i = 0; i < 20 && total() > maxDuration; i++) fps *= 1.02;
+
+      if (rules.maxFps && fps > rules.maxFps) {
+        // Playing faster would break the frame rate limit, so the rest of the time is cut by skipping frames
+        fps = rules.maxFps;
+        const source = fitted;
+        let step = 1;
+        while (total() > maxDuration && step < source.length) fitted = skipFrames(source, ++step);
+        fixes.push(`加快播放至 ${fps} FPS，并每 ${step} 帧保留 1 帧`);
+      } else {
+        fixes.push(`加快播放至 ${Math.round(fps * 10) / 10} FPS`);
+      }
+    }
+  }
+
+  const result = await encodeForPlatform(rules, fitted, fps, timing, config, true);
+  if (result.blob.size < original.blob.size && original.blob.size > rules.maxSizeKB * 1024) {
+    fixes.push(`重新压缩：${formatKB(original.blob.size)} → ${formatKB(result.blob.size)}`);
+  }
+
+  return {
+    blob: result.blob,
+    report: { ...report, size: result.blob.size, after: validateSticker(rules, result), fixes },
+  };
+};
@@ -0,0 +1,77 @@
+import { GeneratedFrame, TimingOptions } from "../types";
+
+export const DEFAULT_TIMING: TimingOptions = {
+  playback: 'forward',
+  loopCount: 0,
+  easing: 'linear',
+};
+
+export interface PlaybackStep {
+  index: number; // Position in the frame list
+  duration: number; // ms
+}
+
+// Shortest delay every target format can represent (GIF counts in centiseconds)
+const MIN_DURATION = 20;
+
+/**
+ * Relative weight of frame i in an n-frame cycle.
+ * Larger weights hold a pose longer; ease presets stretch the poses at the ends of the cycle.
+ */
+const easingWeight = (easing: TimingOptions['easing'], i: number, n: number): number => {
+  if (n <= 1) return 1;
+  const t = i / (n - 1);
+  switch (easing) {
+    case 'easeIn':
+      return 1 + 0.75 * (1 - t) * (1 - t);
+    case 'easeOut':
+      return 1 + 0.75 * t * t;
+    case 'easeInOut':
+      return 1 + 0.75 * Math.pow(Math.cos(Math.PI * t), 2);
+    case 'holdKeys':
+      // The first pose and the one halfway through are the extremes of most cycles
+      return i === 0 || i === Math.floor(n / 2) ? 2 : 1;
+    default:
+      return 1;
+  }
+};
+
+/**
+ * Display duration of every frame in ms, from the base fps, each frame's hold count and the easing.
+ * Easing redistributes time within the cycle without changing its total length.
+ */
+export const computeFrameDurations = (
+  frames: GeneratedFrame[],
+  fps: number,
+  timing: TimingOptions = DEFAULT_TIMING
+): number[] => {
+  const base = 1000 / fps;
+  const holds = frames.map(f => Math.max(1, Math.round(f.hold || 1)));
+  const weights = frames.map((_, i) => easingWeight(timing.easing, i, frames.length));
+
+  const weighted = holds.map((h, i) => h * weights[i]);
+  const total = holds.reduce((sum, h) => sum + h, 0) * base;
+  const weightedTotal = weighted.reduce((sum, w) => sum + w, 0);
+
+  return weighted.map(w => Math.max(MIN_DURATION, Math.round((w / weightedTotal) * total)));
+};
+
+/**
+ * Expands frames into the order they are shown during one loop.
+ * Ping-pong plays forward then back without repeating the two end frames.
+ */
+export const buildPlaybackSequence = (
+  frames: GeneratedFrame[],
+  fps: number,
+  timing: TimingOptions = DEFAULT_TIMING
+): PlaybackStep[] => {
+  const durations = computeFrameDurations(frames, fps, timing);
+  const steps = frames.map((_, i) => ({ index: i, duration: durations[i] }));
+
+  if (timing.playback === 'pingpong' && frames.length > 2) {
+    for (let i = frames.length - 2; i >= 1; i--) {
+      steps.push({ index: i, duration: durations[i] });
+    }
+  }
+  return steps;
+};
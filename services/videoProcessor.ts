@@ -1,168 +1,429 @@
 
-import { GeneratedFrame } from "../types";
+import { ApngOptimizationOptions, BackgroundRemovalOptions, ColorStabilizationOptions, GeneratedFrame, GifOptions, NormalizationOptions, SequenceMetrics, SpriteSheetOptions, TimingOptions, VideoImportOptions } from "../types";
+import { buildPlaybackSequence, DEFAULT_TIMING } from "./timing";
+import { buildReferenceColors, DEFAULT_COLOR_STABILIZATION, measureColorDrift, ReferenceColors } from "./colorStabilizer";
+import { CleanedPixels, Placement } from "./pixelPipeline";
+import { runInWorker } from "./workerPool";
+import { assembleGif, DEFAULT_GIF_OPTIONS, sampleGifColors } from "./gifEncoder";
+import { ABORT_MESSAGE } from "./frameGenerator";
+
+const loadImage = (url: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load image"));
+    img.src = url;
+  });
+};
+
+export const DEFAULT_BACKGROUND_REMOVAL: BackgroundRemovalOptions = {
+  mode: 'floodFill',
+  threshold: 240,
+  tolerance: 40,
+};
+
+export interface ProcessingTask {
+  signal?: AbortSignal; // Cancels the pixel work still queued or running in the workers
+  onProgress?: (done: number, total: number) => void;
+}
+
+/**
+ * Decodes and cleans one image in a worker. Resolves to null when no character was found.
+ */
+const cleanImage = (url: string, background: BackgroundRemovalOptions, signal?: AbortSignal) =>
+  runInWorker({ type: 'clean', url, background }, [], signal);
+
+export const DEFAULT_NORMALIZATION: NormalizationOptions = {
+  scaleMode: 'sequence',
+  scaleSource: 'median',
+  anchor: 'feet',
+  keepVerticalMotion: true,
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * Sequence metrics in fractions of the source height, so sources of different sizes compare.
+ */
+const measureSequence = (frames: CleanedPixels[], reference?: CleanedPixels | null): SequenceMetrics => {
+  return {
+    relHeight: reference
+      ? reference.height / reference.sourceHeight
+      : median(frames.map(f => f.height / f.sourceHeight)),
+    relBottom: median(frames.map(f => (f.top + f.height) / f.sourceHeight)),
+  };
+};
 
 /**
- * Processes a single frame to:
- * 1. Remove white background
- * 2. Apply Safety Margin
- * 3. Return Bounding Box and Cleaned Canvas
+ * Places a cleaned frame on the output canvas.
+ * Horizontal position pins the chosen anchor to the centre line. Vertically, the frame either
+ * keeps its offset from the sequence's median baseline (so jumps survive) or is pinned.
  */
-const processFrameData = (
-  img: HTMLImageElement,
+const placeFrame = (
+  frame: CleanedPixels,
+  sequence: SequenceMetrics,
+  normalization: NormalizationOptions,
   targetWidth: number,
-  targetHeight: number
-) => {
+  targetHeight: number,
+  zoom: number
+): Placement => {
+  // --- SCALE NORMALIZATION ---
+  const baseScale = 0.85;
+  const targetCharHeight = targetHeight * baseScale * zoom;
+  const relHeight = normalization.scaleMode === 'sequence'
+    ? sequence.relHeight
+    : frame.height / frame.sourceHeight;
+  const scale = targetCharHeight / (relHeight * frame.sourceHeight);
+
+  const drawW = frame.width * scale;
+  const drawH = frame.height * scale;
+
+  // --- ANCHORING ---
+  const anchorX = normalization.anchor === 'center'
+    ? frame.width / 2
+    : normalization.anchor === 'centroid' ? frame.centroidX : frame.feetX;
+  const x = targetWidth / 2 - anchorX * scale;
+
+  const baseline = (targetHeight + targetCharHeight) / 2;
+  let y: number;
+  if (normalization.keepVerticalMotion) {
+    const bottom = (frame.top + frame.height) / frame.sourceHeight;
+    const lift = (sequence.relBottom - bottom) * frame.sourceHeight * scale;
+    y = baseline - lift - drawH;
+  } else if (normalization.anchor === 'center') {
+    y = (targetHeight - drawH) / 2;
+  } else {
+    y = baseline - drawH;
+  }
+
+  return { x, y, width: drawW, height: drawH };
+};
+
+// Main-thread canvas holding a cleaned character, for drawing it scaled
+const toCanvas = (frame: CleanedPixels): HTMLCanvasElement => {
   const canvas = document.createElement('canvas');
-  canvas.width = img.naturalWidth;
-  canvas.height = img.naturalHeight;
+  canvas.width = frame.width;
+  canvas.height = frame.height;
+  canvas.getContext('2d')?.putImageData(new ImageData(frame.pixels, frame.width, frame.height), 0, 0);
+  return canvas;
+};
+
+/**
+ * Renders a frame's alpha at a reduced size for cheap alignment searches.
+ */
+const renderAlphaMask = (
+  image: HTMLCanvasElement,
+  placement: Placement,
+  maskW: number,
+  maskH: number,
+  k: number
+): Uint8ClampedArray | null => {
+  const canvas = document.createElement('canvas');
+  canvas.width = maskW;
+  canvas.height = maskH;
   const ctx = canvas.getContext('2d');
   if (!ctx) return null;
+  ctx.drawImage(image, placement.x * k, placement.y * k, placement.width * k, placement.height * k);
+  const rgba = ctx.getImageData(0, 0, maskW, maskH).data;
+  const alpha = new Uint8ClampedArray(maskW * maskH);
+  for (let p = 0; p < alpha.length; p++) alpha[p] = rgba[p * 4 + 3];
+  return alpha;
+};
 
-  ctx.drawImage(img, 0, 0);
-  
-  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-  const data = imageData.data;
-  
-  let minX = canvas.width;
-  let minY = canvas.height;
-  let maxX = 0;
-  let maxY = 0;
-  let foundPixel = false;
-
-  // Strict Threshold for "White" background removal
-  const threshold = 240;
-  
-  // Safety Margin: 5% edge crop to remove potential artifacts
-  const marginX = Math.floor(canvas.width * 0.05);
-  const marginY = Math.floor(canvas.height * 0.05);
-
-  for (let i = 0; i < data.length; i += 4) {
-    const x = (i / 4) % canvas.width;
-    const y = Math.floor((i / 4) / canvas.width);
-
-    // 1. SAFETY CROP
-    if (x < marginX || x > canvas.width - marginX || y < marginY || y > canvas.height - marginY) {
-        data[i + 3] = 0; 
-        continue;
+/**
+ * Nudges each placement to best overlap the previous frame.
+ * Searches a small window so genuine motion is not aligned away.
+ */
+const refineByMatching = (
+  cleaned: CleanedPixels[],
+  placements: Placement[],
+  normalization: NormalizationOptions,
+  targetWidth: number,
+  targetHeight: number
+) => {
+  const k = Math.min(1, 128 / Math.max(targetWidth, targetHeight));
+  const maskW = Math.max(1, Math.round(targetWidth * k));
+  const maskH = Math.max(1, Math.round(targetHeight * k));
+  const radius = Math.max(1, Math.round(Math.max(maskW, maskH) * 0.03));
+  const searchY = normalization.keepVerticalMotion ? 0 : radius;
+
+  const images = cleaned.map(toCanvas);
+  let previous = renderAlphaMask(images[0], placements[0], maskW, maskH, k);
+
+  for (let i = 1; i < cleaned.length; i++) {
+    const current = renderAlphaMask(images[i], placements[i], maskW, maskH, k);
+    if (!previous || !current) return;
+
+    let best = { dx: 0, dy: 0, cost: Infinity };
+    for (let dy = -searchY; dy <= searchY; dy++) {
+      for (let dx = -radius; dx <= radius; dx++) {
+        let cost = 0;
+        for (let y = 0; y < maskH; y++) {
+          const sy = y - dy;
+          for (let x = 0; x < maskW; x++) {
+            const sx = x - dx;
+            const a = sx >= 0 && sx < maskW && sy >= 0 && sy < maskH ? current[sy * maskW + sx] : 0;
+            cost += Math.abs(a - previous[y * maskW + x]);
+          }
+        }
+        // Prefer the smallest shift on ties
+        if (cost < best.cost || (cost === best.cost && Math.abs(dx) + Math.abs(dy) < Math.abs(best.dx) + Math.abs(best.dy))) {
+          best = { dx, dy, cost };
+        }
+      }
     }
 
-    const r = data[i];
-    const g = data[i + 1];
-    const b = data[i + 2];
-
-    // 2. BACKGROUND REMOVAL
-    if (r > threshold && g > threshold && b > threshold) {
-      data[i + 3] = 0; // Transparent
+    if (best.dx !== 0 || best.dy !== 0) {
+      placements[i] = { ...placements[i], x: placements[i].x + best.dx / k, y: placements[i].y + best.dy / k };
+      previous = renderAlphaMask(images[i], placements[i], maskW, maskH, k);
     } else {
-      // Character pixel
-      if (data[i + 3] > 20) {
-        if (x < minX) minX = x;
-        if (x > maxX) maxX = x;
-        if (y < minY) minY = y;
-        if (y > maxY) maxY = y;
-        foundPixel = true;
-      }
+      previous = current;
     }
   }
+};
 
-  if (!foundPixel) return null;
+/**
+ * Foreground pixels of the cleaned reference character. `cleaned` reuses a reference that was already processed.
+ */
+export const loadReferencePixels = async (
+  referenceUrl: string,
+  background: BackgroundRemovalOptions,
+  cleaned?: CleanedPixels | null
+): Promise<Uint8ClampedArray | null> => {
+  try {
+    const reference = cleaned || await cleanImage(referenceUrl, background);
+    return reference ? reference.pixels : null;
+  } catch (e) {
+    console.warn("Failed to read the reference image", e);
+    return null;
+  }
+};
 
-  const charWidth = maxX - minX;
-  const charHeight = maxY - minY;
+const loadReferenceColors = async (
+  referenceUrl: string,
+  background: BackgroundRemovalOptions,
+  paletteSize: number,
+  cleaned?: CleanedPixels | null
+): Promise<ReferenceColors | null> => {
+  const pixels = await loadReferencePixels(referenceUrl, background, cleaned);
+  return pixels ? buildReferenceColors(pixels, paletteSize) : null;
+};
 
-  // Extract the cropped character to a new temporary canvas
-  const charCanvas = document.createElement('canvas');
-  charCanvas.width = charWidth;
-  charCanvas.height = charHeight;
-  const charCtx = charCanvas.getContext('2d');
-  if (!charCtx) return null;
+/**
+ * Re-runs colour stabilization on finished frames and refreshes their drift scores.
+ * With the mode off, only the drift is measured.
+ */
+export const stabilizeFrameColors = async (
+  frames: GeneratedFrame[],
+  referenceUrl: string,
+  background: BackgroundRemovalOptions,
+  color: ColorStabilizationOptions
+): Promise<GeneratedFrame[]> => {
+  const referenceColors = await loadReferenceColors(referenceUrl, background, color.paletteSize);
+  if (!referenceColors) throw new Error("No character was detected in the reference image.");
+
+  return Promise.all(frames.map(async frame => {
+    if (!frame.pixelBuffer || !frame.width || !frame.height) return frame;
+    const data = new Uint8ClampedArray(frame.pixelBuffer.slice(0));
+    if (color.mode === 'off') {
+      return { ...frame, colorDrift: measureColorDrift(data, referenceColors) };
+    }
 
-  // Put the cleaned data back
-  ctx.putImageData(imageData, 0, 0);
-  // Draw cropped region to temp canvas
-  charCtx.drawImage(canvas, minX, minY, charWidth, charHeight, 0, 0, charWidth, charHeight);
-  
-  return {
-      image: charCanvas,
-      width: charWidth,
-      height: charHeight
-  };
+    const encoded = await runInWorker(
+      { type: 'encode', pixels: data, width: frame.width, height: frame.height, referenceColors, color },
+      [data.buffer]
+    );
+    return {
+      ...frame,
+      blob: encoded.blob,
+      dataUrl: URL.createObjectURL(encoded.blob),
+      pixelBuffer: encoded.pixels.buffer,
+      colorDrift: encoded.colorDrift,
+    };
+  }));
 };
 
 /**
  * Processes a list of generated image URLs.
- * Resizes, centers, and normalizes them into uniform frames.
+ * Cleans every frame first, then scales and aligns them as a sequence so the
+ * character keeps a stable size and position across the loop.
+ * Pass `sequence` to register new frames against an existing sequence, and
+ * `referenceUrl` to take the scale from the uploaded reference image.
+ * The pixel work runs in parallel workers; `task` reports progress and cancels it.
  */
 export const processGeneratedFrames = async (
   imageUrls: string[],
   targetWidth: number,
   targetHeight: number,
-  zoom: number = 1.0
+  zoom: number = 1.0,
+  background: BackgroundRemovalOptions = DEFAULT_BACKGROUND_REMOVAL,
+  normalization: NormalizationOptions = DEFAULT_NORMALIZATION,
+  referenceUrl?: string,
+  sequence?: SequenceMetrics,
+  color: ColorStabilizationOptions = DEFAULT_COLOR_STABILIZATION,
+  task: ProcessingTask = {}
 ): Promise<GeneratedFrame[]> => {
-  const frames: GeneratedFrame[] = [];
-
-  for (let i = 0; i < imageUrls.length; i++) {
-    const url = imageUrls[i];
-    
-    await new Promise<void>((resolve, reject) => {
-        const img = new Image();
-        img.crossOrigin = "anonymous";
-        img.onload = async () => {
-            const processed = processFrameData(img, targetWidth, targetHeight);
-            
-            // Create final frame canvas
-            const finalCanvas = document.createElement('canvas');
-            finalCanvas.width = targetWidth;
-            finalCanvas.height = targetHeight;
-            const finalCtx = finalCanvas.getContext('2d');
-
-            if (finalCtx && processed) {
-                const { image, width, height } = processed;
-
-                // --- SCALE NORMALIZATION ---
-                const baseScale = 0.85;
-                const targetCharHeight = targetHeight * baseScale * zoom;
-                const scale = targetCharHeight / height;
-                
-                const drawW = width * scale;
-                const drawH = height * scale;
-
-                // --- ABSOLUTE CENTERING ---
-                const destX = (targetWidth - drawW) / 2;
-                const destY = (targetHeight - drawH) / 2;
-
-                // Draw Character (Top Layer)
-                finalCtx.drawImage(image, 0, 0, width, height, destX, destY, drawW, drawH);
-
-                // Export Frame
-                const blob = await new Promise<Blob | null>(r => finalCanvas.toBlob(r, 'image/png'));
-                const pixelData = finalCtx.getImageData(0, 0, targetWidth, targetHeight);
-                
-                if (blob) {
-                    frames.push({
-                        blob,
-                        dataUrl: URL.createObjectURL(blob),
-                        index: i,
-                        pixelBuffer: pixelData.data.buffer,
-                        width: targetWidth,
-                        height: targetHeight
-                    });
-                }
-            }
-            resolve();
-        };
-        img.onerror = () => {
-            console.error(`Failed to load image ${i}`);
-            resolve(); // Skip failed frames but continue
-        };
-        img.src = url;
-    });
+  const { signal, onProgress } = task;
+  // Every frame is cleaned once and composed once
+  const total = imageUrls.length * 2;
+  let done = 0;
+  const step = () => onProgress?.(++done, total);
+
+  // Pass 1: clean and measure every frame
+  const results = await Promise.all(imageUrls.map(async (url, i) => {
+    try {
+      return await cleanImage(url, background, signal);
+    } catch (e: any) {
+      if (e.message === ABORT_MESSAGE) throw e;
+      console.error(`Failed to load image ${i}`, e);
+      // Skip failed frames but continue
+      return null;
+    } finally {
+      step();
+    }
+  }));
+  const cleaned = results
+    .map((frame, index) => ({ index, frame }))
+    .filter((c): c is { index: number; frame: CleanedPixels } => c.frame !== null);
+  if (cleaned.length === 0) return [];
+
+  let reference: CleanedPixels | null = null;
+  if (!sequence && referenceUrl && normalization.scaleSource === 'reference') {
+    try {
+      reference = await cleanImage(referenceUrl, background, signal);
+    } catch (e: any) {
+      if (e.message === ABORT_MESSAGE) throw e;
+      console.warn("Failed to load reference image, using the median frame instead", e);
+    }
+  }
+  const metrics = sequence || measureSequence(cleaned.map(c => c.frame), reference);
+  const referenceColors = referenceUrl
+    ? await loadReferenceColors(referenceUrl, background, color.paletteSize, reference)
+    : null;
+
+  // Pass 2: place every frame, optionally refined against its predecessor
+  const placements = cleaned.map(c => placeFrame(c.frame, metrics, normalization, targetWidth, targetHeight, zoom));
+  if (normalization.anchor === 'match' && cleaned.length > 1) {
+    refineByMatching(cleaned.map(c => c.frame), placements, normalization, targetWidth, targetHeight);
+  }
+
+  // Pass 3: draw, colour-correct and encode every frame; frames without a character have nothing to compose
+  done += imageUrls.length - cleaned.length;
+  onProgress?.(done, total);
+  return Promise.all(cleaned.map(async ({ index, frame }, n) => {
+    const { pixels, width, height } = frame;
+    const encoded = await runInWorker(
+      {
+        type: 'compose',
+        source: { pixels, width, height },
+        placement: placements[n],
+        targetWidth,
+        targetHeight,
+        referenceColors,
+        color,
+      },
+      [pixels.buffer],
+      signal
+    );
+    step();
+    return {
+      blob: encoded.blob,
+      dataUrl: URL.createObjectURL(encoded.blob),
+      index,
+      pixelBuffer: encoded.pixels.buffer,
+      width: targetWidth,
+      height: targetHeight,
+      registration: metrics,
+      colorDrift: encoded.colorDrift,
+      touchesMargin: frame.touchesMargin,
+    };
+  }));
+};
+
+let crcTable: Uint32Array | null = null;
+
+const crc32 = (bytes: Uint8Array, start: number, end: number): number => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
   }
-  
-  return frames;
+  let crc = 0xFFFFFFFF;
+  for (let i = start; i < end; i++) crc = crcTable[(crc ^ bytes[i]) & 0xFF] ^ (crc >>> 8);
+  return (crc ^ 0xFFFFFFFF) >>> 0;
 };
 
-export const createApng = async (frames: GeneratedFrame[], fps: number): Promise<Blob> => {
+/**
+ * UPNG always writes num_plays = 0 (forever); patch the acTL chunk for a finite loop count.
+ */
+const setApngLoopCount = (buffer: ArrayBuffer, plays: number) => {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  let offset = 8;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    if (type === 'acTL') {
+      view.setUint32(offset + 12, plays);
+      view.setUint32(offset + 8 + length, crc32(bytes, offset + 4, offset + 8 + length));
+      return;
+    }
+    if (type === 'IDAT') return;
+    offset += 12 + length;
+  }
+};
+
+export const DEFAULT_APNG_OPTIMIZATION: ApngOptimizationOptions = {
+  colors: 0,
+  deltaTolerance: 0,
+  targetSizeKB: 0,
+};
+
+/**
+ * Snaps pixels that barely changed since the previous frame back to the previous value,
+ * so UPNG's exact-match diff can crop each frame to the moving region and blend it over the last one.
+ * Fully transparent pixels are zeroed so stray colour under alpha 0 never counts as a change.
+ * Returns false when the frame ends up identical to the previous one.
+ */
+const stabilizeAgainstPrevious = (current: Uint8Array, previous: Uint8Array | null, tolerance: number): boolean => {
+  let changed = previous === null;
+  for (let i = 0; i < current.length; i += 4) {
+    if (current[i + 3] === 0) {
+      current[i] = current[i + 1] = current[i + 2] = 0;
+    }
+    if (!previous) continue;
+
+    if (
+      Math.abs(current[i] - previous[i]) <= tolerance &&
+      Math.abs(current[i + 1] - previous[i + 1]) <= tolerance &&
+      Math.abs(current[i + 2] - previous[i + 2]) <= tolerance &&
+      Math.abs(current[i + 3] - previous[i + 3]) <= tolerance
+    ) {
+      current[i] = previous[i];
+      current[i + 1] = previous[i + 1];
+      current[i + 2] = previous[i + 2];
+      current[i + 3] = previous[i + 3];
+    } else {
+      changed = true;
+    }
+  }
+  return changed;
+};
+
+export const createApng = async (
+  frames: GeneratedFrame[],
+  fps: number,
+  timing: TimingOptions = DEFAULT_TIMING,
+  options: ApngOptimizationOptions = DEFAULT_APNG_OPTIMIZATION
+): Promise<Blob> => {
   if (!window.UPNG) {
     throw new Error("UPNG library not loaded");
   }
@@ -170,21 +431,32 @@ export const createApng = async (frames: GeneratedFrame[], fps: number): Promise
     throw new Error("No frames to encode");
   }
 
-  const buffers: ArrayBuffer[] = [];
   const width = frames[0].width || 0;
   const height = frames[0].height || 0;
 
-  for (const frame of frames) {
-    if (frame.pixelBuffer) {
-        buffers.push(frame.pixelBuffer);
+  const buffers: ArrayBuffer[] = [];
+  const delays: number[] = [];
+  let previous: Uint8Array | null = null;
+
+  for (const step of buildPlaybackSequence(frames, fps, timing)) {
+    const buffer = frames[step.index].pixelBuffer;
+    if (!buffer) continue;
+
+    // Work on a copy: the frame buffers are shared with the other exporters
+    const pixels = new Uint8Array(buffer.slice(0));
+    if (!stabilizeAgainstPrevious(pixels, previous, options.deltaTolerance)) {
+      // Nothing moved, so the previous frame is simply shown longer
+      delays[delays.length - 1] += step.duration;
+      continue;
     }
+    buffers.push(pixels.buffer);
+    delays.push(step.duration);
+    previous = pixels;
   }
 
-  const delay = Math.round(1000 / fps);
-  const delays = new Array(buffers.length).fill(delay);
-
   try {
-      const apngBuffer = window.UPNG.encode(buffers, width, height, 0, delays);
+      const apngBuffer = window.UPNG.encode(buffers, width, height, options.colors, delays);
+      if (timing.loopCount > 0) setApngLoopCount(apngBuffer, timing.loopCount);
       return new Blob([apngBuffer], { type: 'image/png' });
   } catch (e) {
       console.error("UPNG Encoding Error:", e);
@@ -193,78 +465,38 @@ export const createApng = async (frames: GeneratedFrame[], fps: number): Promise
 };
 
 /**
- * Generates a GIF blob from frames using GIF.js
+ * Generates a GIF with the bundled encoder. Frames are quantized and compressed in parallel workers;
+ * each distinct frame is encoded once even when the playback order shows it several times.
  */
-export const createGif = async (frames: GeneratedFrame[], fps: number): Promise<Blob> => {
-    if (!window.GIF) {
-        throw new Error("GIF.js library not loaded");
-    }
-    
-    return new Promise(async (resolve, reject) => {
-        try {
-            // We need to load the worker script content manually to avoid CORS issues with cross-origin workers
-            const workerBlobResponse = await fetch('https://cdnjs.cloudflare.com/ajax/libs/gif.js/0.2.0/gif.worker.js');
-            const workerBlobText = await workerBlobResponse.text();
-            const workerBlob = new Blob([workerBlobText], { type: "application/javascript" });
-            const workerUrl = URL.createObjectURL(workerBlob);
-
-            const gifConfig: any = {
-                workers: 2,
-                quality: 10,
-                width: frames[0].width,
-                height: frames[0].height,
-                workerScript: workerUrl,
-                transparent: 0xFF00FF // Magenta Key
-            };
-
-            const gif = new window.GIF(gifConfig);
-
-            for (const frame of frames) {
-                if (frame.pixelBuffer && frame.width && frame.height) {
-                    let finalImageData: ImageData;
-
-                    // APPLY MAGENTA KEYING FOR TRANSPARENCY
-                    // Create a new buffer to avoid modifying the original used for APNG
-                    const originalBuffer = new Uint8ClampedArray(frame.pixelBuffer);
-                    const newBuffer = new Uint8ClampedArray(originalBuffer.length);
-                    
-                    for (let i = 0; i < originalBuffer.length; i += 4) {
-                        const r = originalBuffer[i];
-                        const g = originalBuffer[i+1];
-                        const b = originalBuffer[i+2];
-                        const a = originalBuffer[i+3];
-
-                        if (a < 128) {
-                            // Background -> Magenta
-                            newBuffer[i] = 255;   // R
-                            newBuffer[i+1] = 0;   // G
-                            newBuffer[i+2] = 255; // B
-                            newBuffer[i+3] = 255; // A (Opaque)
-                        } else {
-                            // Foreground -> Keep color, Force Opaque
-                            newBuffer[i] = r;
-                            newBuffer[i+1] = g;
-                            newBuffer[i+2] = b;
-                            newBuffer[i+3] = 255; // Force Opaque to protect whites
-                        }
-                    }
-                    finalImageData = new ImageData(newBuffer, frame.width, frame.height);
-                    
-                    gif.addFrame(finalImageData, { delay: 1000 / fps });
-                }
-            }
-
-            gif.on('finished', (blob: Blob) => {
-                URL.revokeObjectURL(workerUrl); // Clean up
-                resolve(blob);
-            });
-
-            gif.render();
-        } catch (e) {
-            console.error("GIF Creation Failed:", e);
-            reject(e);
-        }
-    });
+export const createGif = async (
+  frames: GeneratedFrame[],
+  fps: number,
+  timing: TimingOptions = DEFAULT_TIMING,
+  options: GifOptions = DEFAULT_GIF_OPTIONS
+): Promise<Blob> => {
+  const width = frames[0]?.width;
+  const height = frames[0]?.height;
+  if (!width || !height) throw new Error("No frames to encode");
+
+  const steps = buildPlaybackSequence(frames, fps, timing).filter(step => frames[step.index].pixelBuffer);
+  const used = [...new Set(steps.map(step => step.index))];
+  const pixels = new Map(used.map(index => [index, new Uint8ClampedArray(frames[index].pixelBuffer!)]));
+
+  const palette = options.palette === 'global'
+    ? await runInWorker({ type: 'gifPalette', samples: sampleGifColors([...pixels.values()], options), quantizer: options.quantizer })
+    : null;
+  const encoded = new Map(await Promise.all(used.map(async index =>
+    [index, await runInWorker({ type: 'gifFrame', pixels: pixels.get(index)!, width, height, options, palette })] as const
+  )));
+
+  return assembleGif(
+    steps.map(step => encoded.get(step.index)!),
+    steps.map(step => step.duration),
+    width,
+    height,
+    timing.loopCount,
+    palette
+  );
 };
 
 /**
@@ -287,5 +519,324 @@ export const createZip = async (frames: GeneratedFrame[]): Promise<Blob> => {
     return await zip.generateAsync({ type: "blob" });
 };
 
-export const sliceSpriteSheet = async (): Promise<GeneratedFrame[]> => { return []; };
-export const extractFramesFromVideo = async (): Promise<GeneratedFrame[]> => { return []; };
+interface SpriteCell {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Returns [start, end) ranges of consecutive indices for which `hasContent` is true.
+ */
+const findRuns = (length: number, hasContent: (i: number) => boolean): [number, number][] => {
+  const runs: [number, number][] = [];
+  let start = -1;
+  for (let i = 0; i < length; i++) {
+    if (hasContent(i)) {
+      if (start < 0) start = i;
+    } else if (start >= 0) {
+      runs.push([start, i]);
+      start = -1;
+    }
+  }
+  if (start >= 0) runs.push([start, length]);
+  return runs;
+};
+
+/**
+ * Splits the sheet into a regular grid, either by rows/columns or by a fixed cell size.
+ */
+const computeGridCells = (sheetWidth: number, sheetHeight: number, options: SpriteSheetOptions): SpriteCell[] => {
+  const margin = Math.max(0, options.margin || 0);
+  const spacing = Math.max(0, options.spacing || 0);
+  const usableW = sheetWidth - margin * 2;
+  const usableH = sheetHeight - margin * 2;
+
+  let cellW: number;
+  let cellH: number;
+  let cols: number;
+  let rows: number;
+
+  if (options.mode === 'cellSize') {
+    if (!options.cellWidth || !options.cellHeight || options.cellWidth <= 0 || options.cellHeight <= 0) {
+      throw new Error("Cell width and height are required.");
+    }
+    cellW = options.cellWidth;
+    cellH = options.cellHeight;
+    cols = Math.floor((usableW + spacing) / (cellW + spacing));
+    rows = Math.floor((usableH + spacing) / (cellH + spacing));
+  } else {
+    if (!options.columns || !options.rows || options.columns <= 0 || options.rows <= 0) {
+      throw new Error("Rows and columns are required.");
+    }
+    cols = options.columns;
+    rows = options.rows;
+    cellW = Math.floor((usableW - spacing * (cols - 1)) / cols);
+    cellH = Math.floor((usableH - spacing * (rows - 1)) / rows);
+  }
+
+  if (cols <= 0 || rows <= 0 || cellW <= 0 || cellH <= 0) {
+    throw new Error("Sprite sheet grid does not fit the image.");
+  }
+
+  const cells: SpriteCell[] = [];
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      cells.push({
+        x: margin + c * (cellW + spacing),
+        y: margin + r * (cellH + spacing),
+        width: cellW,
+        height: cellH
+      });
+    }
+  }
+  return cells;
+};
+
+/**
+ * Detects cells from fully transparent gutters.
+ * Finds horizontal bands first, then splits each band into columns, so rows may hold different counts.
+ */
+const detectCellsFromGutters = (data: Uint8ClampedArray, width: number, height: number): SpriteCell[] => {
+  const alphaThreshold = 8;
+  const isOpaque = (x: number, y: number) => data[(y * width + x) * 4 + 3] > alphaThreshold;
+
+  const cells: SpriteCell[] = [];
+  const bands = findRuns(height, (y) => {
+    for (let x = 0; x < width; x++) if (isOpaque(x, y)) return true;
+    return false;
+  });
+
+  for (const [y0, y1] of bands) {
+    const columns = findRuns(width, (x) => {
+      for (let y = y0; y < y1; y++) if (isOpaque(x, y)) return true;
+      return false;
+    });
+    for (const [x0, x1] of columns) {
+      cells.push({ x: x0, y: y0, width: x1 - x0, height: y1 - y0 });
+    }
+  }
+  return cells;
+};
+
+/**
+ * Slices a sprite sheet into frames.
+ * Each cell goes through the same cleanup and centering as generated frames.
+ * Output size defaults to the largest cell.
+ */
+export const sliceSpriteSheet = async (
+  sheetUrl: string,
+  options: SpriteSheetOptions,
+  targetWidth?: number,
+  targetHeight?: number,
+  zoom: number = 1.0,
+  background: BackgroundRemovalOptions = DEFAULT_BACKGROUND_REMOVAL,
+  normalization: NormalizationOptions = DEFAULT_NORMALIZATION
+): Promise<GeneratedFrame[]> => {
+  const img = await loadImage(sheetUrl);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context not available");
+  ctx.drawImage(img, 0, 0);
+
+  const cells = options.mode === 'auto'
+    ? detectCellsFromGutters(ctx.getImageData(0, 0, canvas.width, canvas.height).data, canvas.width, canvas.height)
+    : computeGridCells(canvas.width, canvas.height, options);
+
+  if (cells.length === 0) {
+    throw new Error("No sprite cells found in the sheet.");
+  }
+
+  const cellUrls: string[] = [];
+  try {
+    for (const cell of cells) {
+      const cellCanvas = document.createElement('canvas');
+      cellCanvas.width = cell.width;
+      cellCanvas.height = cell.height;
+      const cellCtx = cellCanvas.getContext('2d');
+      if (!cellCtx) continue;
+      cellCtx.drawImage(canvas, cell.x, cell.y, cell.width, cell.height, 0, 0, cell.width, cell.height);
+
+      const blob = await new Promise<Blob | null>(r => cellCanvas.toBlob(r, 'image/png'));
+      if (blob) cellUrls.push(URL.createObjectURL(blob));
+    }
+
+    const outW = targetWidth || Math.max(...cells.map(c => c.width));
+    const outH = targetHeight || Math.max(...cells.map(c => c.height));
+
+    // Empty cells have no foreground and are dropped by the processor
+    const frames = await processGeneratedFrames(cellUrls, outW, outH, zoom, background, normalization);
+    return frames.map((frame, i) => ({ ...frame, index: i }));
+  } finally {
+    cellUrls.forEach(url => URL.revokeObjectURL(url));
+  }
+};
+
+const MAX_VIDEO_FRAMES = 120;
+// How long the browser may take to find the real duration of a streamed recording
+const DURATION_SCAN_TIMEOUT_MS = 5000;
+
+const loadVideo = (url: string): Promise<HTMLVideoElement> => {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.crossOrigin = "anonymous";
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => reject(new Error("Failed to load video. The format may not be supported by this browser."));
+    video.src = url;
+  });
+};
+
+const seekVideo = (video: HTMLVideoElement, time: number): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const onSeeked = () => {
+      video.removeEventListener('seeked', onSeeked);
+      video.removeEventListener('error', onError);
+      resolve();
+    };
+    const onError = () => {
+      video.removeEventListener('seeked', onSeeked);
+      video.removeEventListener('error', onError);
+      reject(new Error(`Failed to seek video to ${time.toFixed(2)}s`));
+    };
+    video.addEventListener('seeked', onSeeked);
+    video.addEventListener('error', onError);
+    video.currentTime = time;
+  });
+};
+
+/**
+ * Resolves the clip duration. MediaRecorder WebM files report Infinity until the browser has
+ * scanned the whole file, so those are seeked far past the end to make it work out the real duration.
+ */
+const resolveDuration = (video: HTMLVideoElement): Promise<number> => {
+  if (isFinite(video.duration)) return Promise.resolve(video.duration);
+
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timer);
+      video.removeEventListener('durationchange', onDurationChange);
+    };
+    const onDurationChange = () => {
+      if (!isFinite(video.duration)) return;
+      cleanup();
+      resolve(video.duration);
+    };
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(new Error("Could not determine the video duration."));
+    }, DURATION_SCAN_TIMEOUT_MS);
+    video.addEventListener('durationchange', onDurationChange);
+    video.currentTime = Number.MAX_SAFE_INTEGER;
+  });
+};
+
+/**
+ * Reads the duration of a clip in seconds, including recordings that do not declare one.
+ */
+export const readVideoDuration = async (videoUrl: string): Promise<number> => {
+  const video = await loadVideo(videoUrl);
+  try {
+    return await resolveDuration(video);
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+  }
+};
+
+/**
+ * Computes the sample timestamps (seconds) for a clip range.
+ */
+const computeSampleTimes = (duration: number, options: VideoImportOptions): number[] => {
+  const start = Math.max(0, Math.min(options.startTime || 0, duration));
+  const end = Math.min(duration, options.endTime && options.endTime > start ? options.endTime : duration);
+  const span = end - start;
+  if (span <= 0) {
+    throw new Error("Video time range is empty.");
+  }
+
+  // Keep the last sample just inside the clip so the seek always lands on a decodable frame
+  const lastTime = Math.max(start, duration - 0.001);
+  const times: number[] = [];
+
+  if (options.sampling === 'fps') {
+    const fps = options.sampleFps && options.sampleFps > 0 ? options.sampleFps : 8;
+    for (let t = start; t < end && times.length < MAX_VIDEO_FRAMES; t += 1 / fps) {
+      times.push(Math.min(t, lastTime));
+    }
+  } else {
+    const count = Math.min(MAX_VIDEO_FRAMES, Math.max(1, options.frameCount || 1));
+    // Spread over [start, end) so looping clips do not repeat the first frame at the end
+    for (let i = 0; i < count; i++) {
+      times.push(Math.min(start + (span * i) / count, lastTime));
+    }
+  }
+  return times;
+};
+
+/**
+ * Decodes frames from a video clip.
+ * Sampled frames go through the same background removal and centering as generated frames.
+ * Output size defaults to the video resolution.
+ */
+export const extractFramesFromVideo = async (
+  videoUrl: string,
+  options: VideoImportOptions,
+  targetWidth?: number,
+  targetHeight?: number,
+  zoom: number = 1.0,
+  signal?: AbortSignal,
+  background: BackgroundRemovalOptions = DEFAULT_BACKGROUND_REMOVAL,
+  normalization: NormalizationOptions = DEFAULT_NORMALIZATION
+): Promise<GeneratedFrame[]> => {
+  const video = await loadVideo(videoUrl);
+  const width = video.videoWidth;
+  const height = video.videoHeight;
+  if (!width || !height) {
+    throw new Error("Video has no decodable frames.");
+  }
+
+  const duration = await resolveDuration(video);
+  if (!(duration > 0)) {
+    throw new Error("Video has no decodable frames.");
+  }
+  const times = computeSampleTimes(duration, options);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context not available");
+
+  const frameUrls: string[] = [];
+  try {
+    for (const time of times) {
+      if (signal?.aborted) {
+        throw new Error("Generation aborted by user.");
+      }
+
+      await seekVideo(video, time);
+      ctx.clearRect(0, 0, width, height);
+      ctx.drawImage(video, 0, 0, width, height);
+
+      const blob = await new Promise<Blob | null>(r => canvas.toBlob(r, 'image/png'));
+      if (blob) frameUrls.push(URL.createObjectURL(blob));
+    }
+
+    const frames = await processGeneratedFrames(
+      frameUrls, targetWidth || width, targetHeight || height, zoom, background, normalization,
+      undefined, undefined, undefined, { signal }
+    );
+    return frames.map((frame, i) => ({ ...frame, index: i }));
+  } finally {
+    frameUrls.forEach(url => URL.revokeObjectURL(url));
+    video.removeAttribute('src');
+    video.load();
+  }
+};
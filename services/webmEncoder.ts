@@ -0,0 +1,291 @@
+import { GeneratedFrame, TimingOptions } from "../types";
+import { buildPlaybackSequence, DEFAULT_TIMING } from "./timing";
+
+// WebCodecs reports the alpha plane of VP8/VP9 chunks as side data
+interface AlphaChunkMetadata extends EncodedVideoChunkMetadata {
+  alphaSideData?: BufferSource;
+}
+
+interface EncodedFrame {
+  data: Uint8Array;
+  alpha?: Uint8Array;
+  timestamp: number; // ms
+  key: boolean;
+}
+
+// --- Minimal EBML writer ---
+
+type EbmlValue = number | string | Uint8Array | EbmlElement[];
+
+interface EbmlElement {
+  id: number;
+  value: EbmlValue;
+  float?: boolean;
+}
+
+const idBytes = (id: number): number[] => {
+  const bytes: number[] = [];
+  for (let v = id; v > 0; v = Math.floor(v / 256)) bytes.unshift(v & 0xff);
+  return bytes;
+};
+
+const sizeBytes = (size: number): number[] => {
+  // Smallest vint that holds the size; all-ones is reserved for "unknown"
+  for (let length = 1; length <= 8; length++) {
+    if (size < Math.pow(2, 7 * length) - 1) {
+      const bytes: number[] = [];
+      let v = size;
+      for (let i = 0; i < length; i++) {
+        bytes.unshift(v & 0xff);
+        v = Math.floor(v / 256);
+      }
+      bytes[0] |= 1 << (8 - length);
+      return bytes;
+    }
+  }
+  throw new Error("EBML element too large");
+};
+
+const uintBytes = (value: number): number[] => {
+  const bytes: number[] = [];
+  for (let v = value; v > 0; v = Math.floor(v / 256)) bytes.unshift(v & 0xff);
+  return bytes.length ? bytes : [0];
+};
+
+const encodeEbml = (element: EbmlElement): Uint8Array => {
+  let payload: Uint8Array;
+  const { value } = element;
+  if (Array.isArray(value)) {
+    const children = value.map(encodeEbml);
+    payload = concat(children);
+  } else if (value instanceof Uint8Array) {
+    payload = value;
+  } else if (typeof value === 'string') {
+    payload = new TextEncoder().encode(value);
+  } else if (element.float) {
+    payload = new Uint8Array(8);
+    new DataView(payload.buffer).setFloat64(0, value);
+  } else {
+    payload = new Uint8Array(uintBytes(value));
+  }
+  return concat([new Uint8Array([...idBytes(element.id), ...sizeBytes(payload.length)]), payload]);
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+};
+
+const signedBytes = (value: number): Uint8Array => {
+  const out = new Uint8Array(2);
+  new DataView(out.buffer).setInt16(0, value);
+  return out;
+};
+
+/**
+ * Wraps an encoded frame in a BlockGroup. The alpha plane goes into BlockAdditions
+ * with BlockAddID 1, which is where WebM players look for it.
+ */
+const blockGroup = (frame: EncodedFrame, relativeTime: number, referenceOffset: number | null): EbmlElement => {
+  const header = new Uint8Array([0x81, ...signedBytes(relativeTime), 0x00]);
+  const children: EbmlElement[] = [{ id: 0xA1, value: concat([header, frame.data]) }];
+  if (frame.alpha) {
+    children.push({
+      id: 0x75A1, // BlockAdditions
+      value: [{
+        id: 0xA6, // BlockMore
+        value: [
+          { id: 0xEE, value: 1 }, // BlockAddID
+          { id: 0xA5, value: frame.alpha }, // BlockAdditional
+        ],
+      }],
+    });
+  }
+  if (!frame.key && referenceOffset !== null) {
+    // ReferenceBlock marks a delta frame; it holds a signed offset to the frame it depends on
+    children.push({ id: 0xFB, value: signedBytes(referenceOffset) });
+  }
+  return { id: 0xA0, value: children };
+};
+
+const muxWebm = (frames: EncodedFrame[], width: number, height: number, durationMs: number): Blob => {
+  const clusters: EbmlElement[] = [];
+  let clusterStart = 0;
+  let blocks: EbmlElement[] = [];
+  // Absolute timestamp of the previous frame; references may point back into the previous cluster
+  let previous: number | null = null;
+
+  const flush = () => {
+    if (blocks.length) {
+      clusters.push({ id: 0x1F43B675, value: [{ id: 0xE7, value: clusterStart }, ...blocks] });
+    }
+    blocks = [];
+  };
+
+  for (const frame of frames) {
+    // Block timecodes are int16 relative to the cluster
+    if (frame.timestamp - clusterStart > 30000) {
+      flush();
+      clusterStart = frame.timestamp;
+    }
+    const relative = frame.timestamp - clusterStart;
+    blocks.push(blockGroup(frame, relative, previous === null ? null : previous - frame.timestamp));
+    previous = frame.timestamp;
+  }
+  flush();
+
+  const hasAlpha = frames.some(f => f.alpha);
+
+  const header: EbmlElement = {
+    id: 0x1A45DFA3,
+    value: [
+      { id: 0x4286, value: 1 }, // EBMLVersion
+      { id: 0x42F7, value: 1 }, // EBMLReadVersion
+      { id: 0x42F2, value: 4 }, // EBMLMaxIDLength
+      { id: 0x42F3, value: 8 }, // EBMLMaxSizeLength
+      { id: 0x4282, value: 'webm' }, // DocType
+      { id: 0x4287, value: 4 }, // DocTypeVersion
+      { id: 0x4285, value: 2 }, // DocTypeReadVersion
+    ],
+  };
+
+  const segment: EbmlElement = {
+    id: 0x18538067,
+    value: [
+      {
+        id: 0x1549A966, // Info
+        value: [
+          { id: 0x2AD7B1, value: 1000000 }, // TimecodeScale: 1ms
+          { id: 0x4D80, value: 'ToonMotion' }, // MuxingApp
+          { id: 0x5741, value: 'ToonMotion' }, // WritingApp
+          { id: 0x4489, value: durationMs, float: true }, // Duration
+        ],
+      },
+      {
+        id: 0x1654AE6B, // Tracks
+        value: [{
+          id: 0xAE, // TrackEntry
+          value: [
+            { id: 0xD7, value: 1 }, // TrackNumber
+            { id: 0x73C5, value: 1 }, // TrackUID
+            { id: 0x9C, value: 0 }, // FlagLacing
+            { id: 0x86, value: 'V_VP9' }, // CodecID
+            { id: 0x83, value: 1 }, // TrackType: video
+            ...(hasAlpha ? [{ id: 0x55EE, value: 1 }] : []), // MaxBlockAdditionID
+            {
+              id: 0xE0, // Video
+              value: [
+                { id: 0xB0, value: width }, // PixelWidth
+                { id: 0xBA, value: height }, // PixelHeight
+                ...(hasAlpha ? [{ id: 0x53C0, value: 1 }] : []), // AlphaMode
+              ],
+            },
+          ],
+        }],
+      },
+      ...clusters,
+    ],
+  };
+
+  return new Blob([encodeEbml(header), encodeEbml(segment)], { type: 'video/webm' });
+};
+
+/**
+ * Creates a VP9 WebM with an alpha channel (the format Telegram video stickers use).
+ * Encodes with WebCodecs and muxes the result in-house, so it needs a browser whose
+ * VP9 encoder supports `alpha: 'keep'`.
+ */
+export const createWebm = async (
+  frames: GeneratedFrame[],
+  fps: number,
+  timing: TimingOptions = DEFAULT_TIMING,
+  bitrate: number = 1_000_000
+): Promise<Blob> => {
+  if (typeof VideoEncoder === 'undefined' || typeof VideoFrame === 'undefined') {
+    throw new Error("WebCodecs is not available in this browser.");
+  }
+  const valid = frames.filter(f => f.pixelBuffer && f.width && f.height);
+  if (valid.length === 0) {
+    throw new Error("No frames to encode");
+  }
+
+  // 4:2:0 chroma subsampling needs even dimensions
+  const width = valid[0].width! + (valid[0].width! & 1);
+  const height = valid[0].height! + (valid[0].height! & 1);
+
+  // WebM has no loop flag: players loop it, so a finite count is written out as repeated passes
+  const pass = buildPlaybackSequence(valid, fps, timing);
+  const steps = Array.from({ length: Math.max(1, timing.loopCount) }, () => pass).flat();
+
+  const config: VideoEncoderConfig = {
+    codec: 'vp09.00.10.08',
+    width,
+    height,
+    bitrate,
+    framerate: Math.max(fps, 1),
+    alpha: 'keep',
+  };
+  const support = await VideoEncoder.isConfigSupported(config);
+  if (!support.supported) {
+    throw new Error("This browser cannot encode VP9 video with alpha.");
+  }
+
+  const encoded: EncodedFrame[] = [];
+  let encodeError: Error | null = null;
+
+  const encoder = new VideoEncoder({
+    output: (chunk, metadata) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      const side = (metadata as AlphaChunkMetadata | undefined)?.alphaSideData;
+      encoded.push({
+        data,
+        alpha: side
+          ? (side instanceof ArrayBuffer ? new Uint8Array(side) : new Uint8Array(side.buffer, side.byteOffset, side.byteLength)).slice()
+          : undefined,
+        timestamp: Math.round(chunk.timestamp / 1000),
+        key: chunk.type === 'key',
+      });
+    },
+    error: (e) => { encodeError = e as Error; },
+  });
+  encoder.configure(config);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context not available");
+
+  let time = 0;
+  for (let i = 0; i < steps.length; i++) {
+    const frame = valid[steps[i].index];
+    ctx.clearRect(0, 0, width, height);
+    ctx.putImageData(new ImageData(new Uint8ClampedArray(frame.pixelBuffer!.slice(0)), frame.width!, frame.height!), 0, 0);
+
+    const videoFrame = new VideoFrame(canvas, {
+      timestamp: time * 1000,
+      duration: steps[i].duration * 1000,
+      alpha: 'keep',
+    });
+    encoder.encode(videoFrame, { keyFrame: i === 0 });
+    videoFrame.close();
+    time += steps[i].duration;
+  }
+
+  await encoder.flush();
+  encoder.close();
+
+  if (encodeError) throw encodeError;
+  if (!encoded.some(f => f.alpha)) {
+    throw new Error("This browser's VP9 encoder dropped the alpha channel.");
+  }
+
+  encoded.sort((a, b) => a.timestamp - b.timestamp);
+  return muxWebm(encoded, width, height, time);
+};
@@ -0,0 +1,142 @@
+import { GeneratedFrame, TimingOptions } from "../types";
+import { buildPlaybackSequence, DEFAULT_TIMING } from "./timing";
+
+interface RiffChunk {
+  fourcc: string;
+  data: Uint8Array;
+}
+
+const readFourcc = (bytes: Uint8Array, offset: number) =>
+  String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+
+const writeUint24 = (out: Uint8Array, offset: number, value: number) => {
+  out[offset] = value & 0xff;
+  out[offset + 1] = (value >> 8) & 0xff;
+  out[offset + 2] = (value >> 16) & 0xff;
+};
+
+/**
+ * Splits a still WebP file into its RIFF chunks.
+ */
+const parseWebp = (bytes: Uint8Array): RiffChunk[] => {
+  if (readFourcc(bytes, 0) !== 'RIFF' || readFourcc(bytes, 8) !== 'WEBP') {
+    throw new Error("Invalid WebP data");
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: RiffChunk[] = [];
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const fourcc = readFourcc(bytes, offset);
+    const size = view.getUint32(offset + 4, true);
+    chunks.push({ fourcc, data: bytes.subarray(offset + 8, offset + 8 + size) });
+    // Chunks are padded to an even size
+    offset += 8 + size + (size & 1);
+  }
+  return chunks;
+};
+
+const encodeChunk = (fourcc: string, data: Uint8Array): Uint8Array => {
+  const padded = data.length + (data.length & 1);
+  const out = new Uint8Array(8 + padded);
+  for (let i = 0; i < 4; i++) out[i] = fourcc.charCodeAt(i);
+  new DataView(out.buffer).setUint32(4, data.length, true);
+  out.set(data, 8);
+  return out;
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const total = parts.reduce((sum, p) => sum + p.length, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+};
+
+/**
+ * Encodes one frame with the browser's WebP encoder and returns the image chunks
+ * (ALPH + VP8, or VP8L) that go inside an ANMF chunk.
+ */
+const encodeFrameChunks = async (frame: GeneratedFrame, quality: number): Promise<Uint8Array> => {
+  const width = frame.width!;
+  const height = frame.height!;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context not available");
+  ctx.putImageData(new ImageData(new Uint8ClampedArray(frame.pixelBuffer!.slice(0)), width, height), 0, 0);
+
+  const blob = await new Promise<Blob | null>(r => canvas.toBlob(r, 'image/webp', quality));
+  if (!blob || blob.type !== 'image/webp') {
+    throw new Error("This browser cannot encode WebP images.");
+  }
+
+  const chunks = parseWebp(new Uint8Array(await blob.arrayBuffer()));
+  const imageChunks = chunks.filter(c => c.fourcc === 'ALPH' || c.fourcc === 'VP8 ' || c.fourcc === 'VP8L');
+  if (imageChunks.length === 0) {
+    throw new Error("WebP encoder returned no image data.");
+  }
+  return concat(imageChunks.map(c => encodeChunk(c.fourcc, c.data)));
+};
+
+/**
+ * Creates an animated WebP with full alpha from the frames.
+ * Each frame is encoded by the browser and wrapped in an ANMF chunk; frames replace
+ * the canvas without blending so transparent areas never show the previous frame.
+ */
+export const createWebp = async (
+  frames: GeneratedFrame[],
+  fps: number,
+  timing: TimingOptions = DEFAULT_TIMING,
+  quality: number = 0.85
+): Promise<Blob> => {
+  const valid = frames.filter(f => f.pixelBuffer && f.width && f.height);
+  if (valid.length === 0) {
+    throw new Error("No frames to encode");
+  }
+
+  const width = valid[0].width!;
+  const height = valid[0].height!;
+
+  // VP8X: animation + alpha flags and the canvas size
+  const vp8x = new Uint8Array(10);
+  vp8x[0] = 0x02 | 0x10;
+  writeUint24(vp8x, 4, width - 1);
+  writeUint24(vp8x, 7, height - 1);
+
+  // ANIM: transparent background, then the loop count (0 = forever)
+  const anim = new Uint8Array(6);
+  new DataView(anim.buffer).setUint16(4, timing.loopCount, true);
+
+  const parts: Uint8Array[] = [encodeChunk('VP8X', vp8x), encodeChunk('ANIM', anim)];
+
+  // Ping-pong revisits frames, so each one is only encoded once
+  const encoded = new Map<number, Uint8Array>();
+
+  for (const step of buildPlaybackSequence(valid, fps, timing)) {
+    let image = encoded.get(step.index);
+    if (!image) {
+      image = await encodeFrameChunks(valid[step.index], quality);
+      encoded.set(step.index, image);
+    }
+    const header = new Uint8Array(16);
+    writeUint24(header, 0, 0); // X offset / 2
+    writeUint24(header, 3, 0); // Y offset / 2
+    writeUint24(header, 6, width - 1);
+    writeUint24(header, 9, height - 1);
+    writeUint24(header, 12, step.duration);
+    header[15] = 0x02; // Do not blend, keep the frame's own alpha
+    parts.push(encodeChunk('ANMF', concat([header, image])));
+  }
+
+  const body = concat(parts);
+  const riff = new Uint8Array(12);
+  riff.set([0x52, 0x49, 0x46, 0x46], 0); // RIFF
+  new DataView(riff.buffer).setUint32(4, body.length + 4, true);
+  riff.set([0x57, 0x45, 0x42, 0x50], 8); // WEBP
+
+  return new Blob([riff, body], { type: 'image/webp' });
+};
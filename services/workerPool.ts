@@ -0,0 +1,143 @@
+import { ABORT_MESSAGE } from "./frameGenerator";
+import { PixelTask, PixelTaskResults, runPixelTask } from "./pixelPipeline";
+
+// Leave a core for the UI thread
+const POOL_SIZE = Math.max(1, Math.min(4, (navigator.hardwareConcurrency || 2) - 1));
+
+interface Job {
+  id: number;
+  task: PixelTask;
+  transfer: Transferable[];
+  signal?: AbortSignal;
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  ready: boolean; // The worker script loaded; jobs are only handed to ready workers so none get lost if it fails to load
+  job: Job | null;
+}
+
+const workers: PoolWorker[] = [];
+const queue: Job[] = [];
+let nextId = 0;
+// Set once workers turn out to be unusable; tasks then run on the main thread
+let fallback = typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined';
+
+const retire = (slot: PoolWorker) => {
+  slot.worker.terminate();
+  workers.splice(workers.indexOf(slot), 1);
+};
+
+const settle = (slot: PoolWorker, outcome: (job: Job) => void) => {
+  const job = slot.job;
+  slot.job = null;
+  if (job) outcome(job);
+  dispatch();
+};
+
+const spawn = (): PoolWorker | null => {
+  let worker: Worker;
+  try {
+    worker = new Worker(new URL('./pixelWorker.ts', import.meta.url), { type: 'module' });
+  } catch (e) {
+    console.warn("Frame workers are unavailable, processing on the main thread", e);
+    fallback = true;
+    return null;
+  }
+
+  const slot: PoolWorker = { worker, ready: false, job: null };
+  worker.addEventListener('message', (event: MessageEvent<{ ready?: boolean; id?: number; result?: unknown; error?: string }>) => {
+    if (event.data.ready) {
+      slot.ready = true;
+      dispatch();
+      return;
+    }
+    if (slot.job?.id !== event.data.id) return;
+    const { result, error } = event.data;
+    settle(slot, job => (error !== undefined ? job.reject(new Error(error)) : job.resolve(result)));
+  });
+  // A worker that fails to load switches the pool to the main thread; one that crashes later
+  // is replaced and its task fails instead of hanging
+  worker.addEventListener('error', (event) => {
+    event.preventDefault();
+    retire(slot);
+    if (!slot.ready) {
+      console.warn("Frame worker failed to load, processing on the main thread", event.message);
+      fallback = true;
+    }
+    settle(slot, job => job.reject(new Error(event.message || "Frame worker failed.")));
+  });
+  workers.push(slot);
+  return slot;
+};
+
+// Main-thread tasks run one after another, so an abort still skips the ones that have not started
+let mainThread: Promise<void> = Promise.resolve();
+
+const runOnMainThread = (job: Job) => {
+  mainThread = mainThread.then(async () => {
+    try {
+      if (job.signal?.aborted) throw new Error(ABORT_MESSAGE);
+      const { result } = await runPixelTask(job.task);
+      if (job.signal?.aborted) throw new Error(ABORT_MESSAGE);
+      job.resolve(result);
+    } catch (e: any) {
+      job.reject(e instanceof Error ? e : new Error(String(e)));
+    }
+  });
+};
+
+const dispatch = () => {
+  while (queue.length > 0) {
+    if (fallback) {
+      runOnMainThread(queue.shift()!);
+      continue;
+    }
+    const slot = workers.find(w => w.ready && !w.job);
+    if (!slot) {
+      // Start more workers while jobs are waiting; they ask for work once loaded
+      const starting = workers.filter(w => !w.ready).length;
+      if (workers.length >= POOL_SIZE || starting >= queue.length) return;
+      spawn();
+      continue;
+    }
+    const job = queue.shift()!;
+    slot.job = job;
+    slot.worker.postMessage({ id: job.id, task: job.task }, job.transfer);
+  }
+};
+
+/**
+ * Drops queued jobs for an aborted signal and terminates the workers busy with its jobs,
+ * so cancelling stops the pixel work instead of letting it finish in the background.
+ */
+function onAbort(this: AbortSignal) {
+  for (let i = queue.length - 1; i >= 0; i--) {
+    if (queue[i].signal === this) queue.splice(i, 1)[0].reject(new Error(ABORT_MESSAGE));
+  }
+  workers.filter(slot => slot.job?.signal === this).forEach(slot => {
+    retire(slot);
+    settle(slot, job => job.reject(new Error(ABORT_MESSAGE)));
+  });
+}
+
+/**
+ * Runs a pixel task on the next free worker. Buffers listed in `transfer` move to the
+ * worker and are unusable afterwards. Rejects with the usual abort error when `signal` fires.
+ */
+export const runInWorker = <T extends PixelTask>(
+  task: T,
+  transfer: Transferable[] = [],
+  signal?: AbortSignal
+): Promise<PixelTaskResults[T['type']]> => {
+  if (signal?.aborted) return Promise.reject(new Error(ABORT_MESSAGE));
+
+  return new Promise((resolve, reject) => {
+    const job: Job = { id: nextId++, task, transfer, signal, resolve, reject };
+    signal?.addEventListener('abort', onAbort);
+    queue.push(job);
+    dispatch();
+  });
+};
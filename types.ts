@@ -6,6 +6,17 @@ export interface GeneratedFrame {
   pixelBuffer?: ArrayBuffer;
   width?: number;
   height?: number;
+  registration?: SequenceMetrics; // Sequence scale/baseline the frame was aligned with
+  hold?: number; // How many base frame durations this frame is shown for (default 1)
+  colorDrift?: number; // Mean ΔE from the reference colours, when a reference was available
+  touchesMargin?: boolean; // The cleaned silhouette reached the safety crop margin of the model output
+  qualityIssues?: QualityIssue[]; // Problems found by the automatic checks, absent when the frame passed
+}
+
+// Character height and baseline as fractions of the source image height
+export interface SequenceMetrics {
+  relHeight: number;
+  relBottom: number;
 }
 
 export interface GenerationState {
@@ -15,7 +26,15 @@ export interface GenerationState {
   videoUrl?: string; // Used for APNG URL primarily
   gifUrl?: string;
   zipUrl?: string;
+  spriteSheetUrl?: string; // ZIP with the packed sheet PNG and its JSON atlas
+  webpUrl?: string; // Animated WebP
+  webmUrl?: string; // VP9 WebM with alpha
+  apngInfo?: ApngEncodeInfo; // Settings the APNG was finally encoded with
+  stickerUrl?: string; // Export fitted to the selected sticker platform
+  stickerReport?: StickerReport;
   frames?: GeneratedFrame[];
+  failedIndices?: number[]; // Frame slots that could not be generated and can be retried
+  blockedIndices?: number[]; // Failed slots whose error will not go away on retry, e.g. safety blocks
   error?: string;
 }
 
@@ -25,6 +44,272 @@ export interface UserConfig {
   resolution: '720p' | '1080p';
   frameCount: number; // Total number of frames to generate
   zoom: number; // Scale factor for the subject (0.5 to 1.0)
+  generationMode: 'parallel' | 'chained'; // 'chained' feeds each frame the previous one, sequentially
+  chainFirstFrame: boolean; // In chained mode, also send the first frame as an anchor
+  providerId: FrameProviderId; // Backend used to generate frames
+  background: BackgroundRemovalOptions;
+  normalization: NormalizationOptions;
+  spriteSheet: SpriteSheetExportOptions;
+  timing: TimingOptions;
+  apng: ApngOptimizationOptions;
+  gif: GifOptions;
+  platform: StickerPlatformId; // Sticker store the output is validated against
+  outputSize?: { width: number; height: number }; // Fixed output canvas, otherwise the reference image size
+  poses: string[]; // Pose descriptions from a motion preset, spread over the frames; empty for a free-form prompt
+  scriptEnabled: boolean; // Advanced mode: per-frame poses come from `script` instead
+  script: string; // Keyframe script, e.g. "1-2: crouch, 3: leap"
+  color: ColorStabilizationOptions;
+  quality: QualityCheckOptions;
+}
+
+export interface InlineImage {
+  data: string; // Base64 without the data URL prefix
+  mimeType: string;
+}
+
+// Extra images sent alongside the reference when chaining frames
+export interface FrameContext {
+  previousFrame?: InlineImage;
+  firstFrame?: InlineImage;
+  pose?: string; // What this particular frame should show
+  nextFrame?: InlineImage; // Frame that follows, for in-betweens such as a loop bridge
+}
+
+export interface FrameFailure {
+  index: number;
+  error: string;
+  retryable: boolean; // false for errors that will not go away on retry, e.g. SAFETY
+}
+
+export interface AnimationFramesResult {
+  urls: (string | null)[]; // One slot per frame, null where generation failed
+  failures: FrameFailure[];
+}
+
+export type FrameProviderId = 'gemini' | 'local';
+
+/**
+ * A backend that turns the reference image into individual animation frames.
+ * generateFrame resolves to an object URL of the raw frame image.
+ */
+export interface FrameProvider {
+  id: FrameProviderId;
+  name: string;
+  generateFrame: (
+    imageBase64: string,
+    mimeType: string,
+    prompt: string,
+    index: number,
+    total: number,
+    context?: FrameContext
+  ) => Promise<string>;
+  checkApiKey: () => Promise<boolean>;
+  selectApiKey: () => Promise<void>;
+}
+
+export type BackgroundRemovalMode = 'threshold' | 'floodFill';
+
+export interface BackgroundRemovalOptions {
+  // 'threshold' clears every near-white pixel, 'floodFill' only clears white connected to the border
+  mode: BackgroundRemovalMode;
+  threshold: number; // Channel value (0-255) above which a pixel counts as white background
+  tolerance: number; // Width of the band below the threshold that becomes partial alpha at edges
+}
+
+export interface TimingOptions {
+  playback: 'forward' | 'pingpong';
+  loopCount: number; // 0 = forever, otherwise number of plays
+  easing: 'linear' | 'easeIn' | 'easeOut' | 'easeInOut' | 'holdKeys'; // Redistributes time toward key poses
+}
+
+export type QualityIssue = 'cropped' | 'multiple' | 'area' | 'aspect' | 'color';
+
+export interface QualityCheckOptions {
+  enabled: boolean;
+  autoRetries: number; // How many times flagged frames are regenerated automatically (0 = only flag them)
+}
+
+export interface ColorStabilizationOptions {
+  mode: 'off' | 'histogram' | 'palette'; // 'histogram' matches the colour distribution, 'palette' snaps to reference colours
+  strength: number; // 0-1, how far pixels move toward the reference
+  paletteSize: number; // Colours taken from the reference
+}
+
+export type LoopIssue = 'pop' | 'duplicate';
+
+export interface LoopStep {
+  from: number;
+  to: number;
+  score: number; // 0 = identical, 1 = nothing in common
+  issue?: LoopIssue;
+}
+
+export interface LoopAnalysis {
+  steps: LoopStep[]; // Neighbouring frames in order
+  closing?: LoopStep; // Last frame back to the first; absent for ping-pong playback
+  typicalStep: number; // Median neighbour score
+  seamless: boolean;
+  bestTrim?: { start: number; end: number; score: number }; // Sub-range that loops better than the whole
+}
+
+export interface InterpolationOptions {
+  method: 'crossfade' | 'motion'; // Alpha-aware blend, or block-matched motion compensation
+  factor: number; // Output frames per source frame, e.g. 2 or 3
+  targetFps: number; // Resample to this rate instead of using `factor`; 0 = off
+}
+
+export interface MotionPreset {
+  id: string;
+  name: string;
+  action: string; // Overall action, used as the prompt
+  poses: string[]; // Key poses, spread evenly over the frames when there are fewer than frameCount
+  frameCount: number; // Recommended number of frames
+  fps: number;
+  timing: TimingOptions;
+  builtIn?: boolean; // Shipped with the app; cannot be edited or deleted
+}
+
+export type BatchJobStatus = 'queued' | 'running' | 'paused' | 'processing' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchReference {
+  dataUrl: string;
+  mimeType: string;
+  name: string;
+  width: number;
+  height: number;
+}
+
+export interface BatchJobInput {
+  name: string;
+  reference: BatchReference;
+  config: UserConfig; // Snapshot, including the prompt
+}
+
+export interface BatchJob extends BatchJobInput {
+  id: string;
+  status: BatchJobStatus;
+  progress: number; // 0-100
+  completedSlots: number;
+  error?: string;
+  frames?: GeneratedFrame[];
+  rawOutputs?: (Blob | null)[];
+  failedIndices?: number[];
+}
+
+// Processed frame as persisted in the history; pixels are decoded again from the PNG on load
+export interface HistoryFrame {
+  blob: Blob;
+  width: number;
+  height: number;
+  hold?: number;
+  registration?: SequenceMetrics;
+}
+
+export interface HistorySource {
+  blob: Blob;
+  name: string;
+  width: number;
+  height: number;
+}
+
+export interface HistorySession {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  config: UserConfig;
+  source?: HistorySource; // Reference image the frames were generated from
+  rawOutputs: (Blob | null)[]; // Model outputs as returned, before processing; null where a slot failed
+  frames: HistoryFrame[];
+  size: number; // Approximate bytes, used for clean-up
+}
+
+// Everything needed to restore the editor, shared by the history and the .toonmotion project file
+export type ProjectData = Pick<HistorySession, 'name' | 'config' | 'source' | 'rawOutputs' | 'frames'>;
+
+export interface HistorySummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  frameCount: number;
+  size: number;
+  thumbnail?: Blob;
+}
+
+export type StickerPlatformId = 'none' | 'line' | 'telegram' | 'wechat' | 'discord';
+
+export interface StickerCheck {
+  rule: string;
+  passed: boolean;
+  message: string;
+}
+
+export interface StickerReport {
+  platform: StickerPlatformId;
+  format: 'apng' | 'webm' | 'gif';
+  size: number; // bytes of the fitted file
+  before: StickerCheck[]; // Export as configured
+  after: StickerCheck[]; // Export after auto-fit
+  fixes: string[]; // What auto-fit changed
+}
+
+export interface ApngOptimizationOptions {
+  colors: number; // Palette size for lossy quantization, 0 = lossless full colour
+  deltaTolerance: number; // Per-channel change below which a pixel counts as unchanged from the previous frame
+  targetSizeKB: number; // 0 = off, otherwise shrink colours, size and frame count until the file fits
+}
+
+export interface GifOptions {
+  palette: 'global' | 'perFrame'; // One shared colour table, or one per frame for sequences whose colours change a lot
+  quantizer: 'medianCut' | 'octree';
+  dither: 'none' | 'floydSteinberg' | 'ordered';
+  alphaThreshold: number; // 1-255, pixels less opaque than this become transparent
+  matte: string | null; // Colour semi-transparent edge pixels are blended over, null keeps their own colour
+}
+
+export interface ApngEncodeInfo {
+  size: number; // bytes
+  colors: number;
+  scale: number; // Relative to the frame size
+  frameStep: number; // 1 = every frame kept, 2 = every other frame, ...
+  width: number;
+  height: number;
+  fits: boolean; // False when the target size could not be reached
+}
+
+export interface NormalizationOptions {
+  scaleMode: 'perFrame' | 'sequence'; // 'sequence' uses one scale for every frame
+  scaleSource: 'median' | 'reference'; // Where the sequence scale comes from
+  anchor: 'center' | 'feet' | 'centroid' | 'match'; // 'match' also nudges toward the previous frame
+  keepVerticalMotion: boolean; // Keep jumps instead of pinning every frame to the baseline
+}
+
+export interface SpriteSheetExportOptions {
+  layout: 'grid' | 'row' | 'packed'; // 'packed' trims transparent borders and shelf-packs frames
+  columns?: number; // Grid only, defaults to a near-square grid
+  padding: number; // Transparent gap between frames (px)
+  extrude: number; // Edge pixels repeated around each frame (px)
+  format: 'hash' | 'array' | 'aseprite'; // TexturePacker JSON hash/array or Aseprite JSON
+}
+
+export interface SpriteSheetOptions {
+  // 'grid': split by rows/columns, 'cellSize': fixed cell size, 'auto': detect from transparent gutters
+  mode: 'grid' | 'cellSize' | 'auto';
+  rows?: number;
+  columns?: number;
+  cellWidth?: number;
+  cellHeight?: number;
+  margin?: number; // Outer border around the whole sheet (px)
+  spacing?: number; // Gap between neighbouring cells (px)
+}
+
+export interface VideoImportOptions {
+  startTime: number; // Seconds
+  endTime?: number; // Seconds, defaults to the end of the clip
+  sampling: 'frameCount' | 'fps';
+  frameCount?: number; // Frames spread evenly over the range
+  sampleFps?: number; // Frames taken per second of footage
 }
 
 declare global {
@@ -44,6 +329,5 @@ declare global {
     
     // External libraries loaded via script tags
     JSZip: any;
-    GIF: any;
   }
 }